@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { strToU8, strFromU8, Zip, ZipDeflate, zipSync } from 'fflate';
+import { matchesGlob, readArtifactArchive, toInlineFile } from './artifacts.js';
+
+/**
+ * Zip files the way streaming zippers such as upload-artifact do, with the sizes in data
+ * descriptors after the file data instead of in the headers.
+ */
+function zipStreaming(files: Record<string, Uint8Array>): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const zip = new Zip((error, chunk) => {
+    if (error) {
+      throw error;
+    }
+    chunks.push(chunk);
+  });
+  for (const [name, content] of Object.entries(files)) {
+    const file = new ZipDeflate(name);
+    zip.add(file);
+    file.push(content, true);
+  }
+  zip.end();
+  return Buffer.concat(chunks);
+}
+
+describe('readArtifactArchive', () => {
+  it('extracts the files of an archive, skipping directories', () => {
+    const archive = zipSync({
+      'report.txt': strToU8('passed'),
+      'logs/': new Uint8Array(0),
+      'logs/test.log': strToU8('ok\n'.repeat(1000)),
+      'empty.txt': new Uint8Array(0),
+    });
+
+    const files = readArtifactArchive(archive, 1024 * 1024);
+
+    assert.deepEqual(
+      files.map(file => [file.path, strFromU8(file.content)]),
+      [
+        ['report.txt', 'passed'],
+        ['logs/test.log', 'ok\n'.repeat(1000)],
+        ['empty.txt', ''],
+      ]
+    );
+  });
+
+  it('extracts archives with data descriptors', () => {
+    const archive = zipStreaming({ 'a.txt': strToU8('a'.repeat(100000)), 'b.txt': strToU8('b') });
+
+    const files = readArtifactArchive(archive, 1024 * 1024);
+
+    assert.deepEqual(
+      files.map(file => [file.path, file.content.length]),
+      [
+        ['a.txt', 100000],
+        ['b.txt', 1],
+      ]
+    );
+  });
+
+  it('rejects archives that expand beyond the limit', () => {
+    const archive = zipSync({ 'zeros.bin': new Uint8Array(10 * 1024 * 1024) });
+
+    assert.throws(() => readArtifactArchive(archive, 1024 * 1024), {
+      message: 'Artifact expands to more than the 1048576 byte limit when extracted',
+    });
+  });
+
+  it('rejects archives that expand beyond the limit without declaring their sizes', () => {
+    const archive = zipStreaming({ 'zeros.bin': new Uint8Array(10 * 1024 * 1024) });
+
+    assert.throws(() => readArtifactArchive(archive, 1024 * 1024), /byte limit/);
+  });
+
+  it('rejects data that is not a whole zip archive', () => {
+    const archive = zipStreaming({ 'a.txt': strToU8('a'.repeat(100000)) });
+
+    assert.throws(() => readArtifactArchive(strToU8('<html>Not Found</html>'), 1024), {
+      message: 'Artifact is not a zip archive',
+    });
+    assert.throws(() => readArtifactArchive(archive.subarray(0, 100), 1024 * 1024), {
+      message: 'invalid zip data',
+    });
+    assert.deepEqual(readArtifactArchive(zipSync({}), 1024), []);
+  });
+
+  it('rejects files outside the destination', () => {
+    const archive = zipSync({ '../escape.txt': strToU8('x') });
+
+    assert.throws(() => readArtifactArchive(archive, 1024), /must be relative/);
+  });
+});
+
+describe('toInlineFile', () => {
+  const file = (content: string | Uint8Array) => ({
+    path: 'out.txt',
+    content: typeof content === 'string' ? strToU8(content) : content,
+  });
+
+  it('returns text files whole within the limit', () => {
+    assert.deepEqual(toInlineFile(file('héllo'), 100), {
+      path: 'out.txt',
+      size: 6,
+      content: 'héllo',
+    });
+    assert.equal(toInlineFile(file('x'.repeat(200)), 0).content?.length, 200);
+  });
+
+  it('truncates on a character boundary', () => {
+    // "€" is 3 bytes, the limit falls in the middle of the second one
+    assert.deepEqual(toInlineFile(file('a€€b'), 5), {
+      path: 'out.txt',
+      size: 8,
+      content: 'a€',
+      truncated: true,
+    });
+    assert.equal(toInlineFile(file('a€€b'), 4).content, 'a€');
+    assert.equal(toInlineFile(file('a€€b'), 7).content, 'a€€');
+  });
+
+  it('does not inline binary files', () => {
+    assert.deepEqual(toInlineFile(file(new Uint8Array([0x89, 0x50, 0x00, 0x01])), 100), {
+      path: 'out.txt',
+      size: 4,
+      binary: true,
+    });
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches within and across directories', () => {
+    assert.equal(matchesGlob('report.xml', '*.xml'), true);
+    assert.equal(matchesGlob('reports/report.xml', '*.xml'), false);
+    assert.equal(matchesGlob('reports/unit/report.xml', '**/*.xml'), true);
+    assert.equal(matchesGlob('report.xml', '**/*.xml'), true);
+    assert.equal(matchesGlob('reports/a.trx', 'reports/?.trx'), true);
+    assert.equal(matchesGlob('reports/ab.trx', 'reports/?.trx'), false);
+    assert.equal(matchesGlob('coverage+1.json', 'coverage+1.json'), true);
+  });
+});
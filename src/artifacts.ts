@@ -0,0 +1,139 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Unzip, UnzipInflate } from 'fflate';
+import { normalizeRepositoryPath } from './files.js';
+
+export interface ArtifactFile {
+  path: string;
+  content: Uint8Array;
+}
+
+export interface InlineArtifactFile {
+  path: string;
+  size: number;
+  content?: string;
+  truncated?: boolean;
+  binary?: boolean;
+}
+
+export const DEFAULT_MAX_ARTIFACT_BYTES = 50 * 1024 * 1024;
+export const DEFAULT_MAX_INLINE_FILE_BYTES = 20000;
+
+// Archives are inflated a chunk at a time, so at most ~1000 times this much is inflated past the
+// limit before an archive is rejected
+const ARCHIVE_CHUNK_BYTES = 8 * 1024;
+// Zip archives start with a local file header, or the end of central directory when empty
+const ZIP_SIGNATURES = ['PK\x03\x04', 'PK\x05\x06'];
+
+/**
+ * Match a path against a glob pattern, where `**` matches across directories, `*` matches within
+ * a path segment and `?` matches a single character.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const source = pattern
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Unzip an artifact archive in memory. The limit is enforced on the bytes as they are inflated,
+ * as the sizes an archive declares for its files may be wrong, so an archive that expands beyond
+ * it is rejected without inflating the rest.
+ */
+export function readArtifactArchive(
+  archive: Uint8Array,
+  maxUncompressedBytes: number
+): ArtifactFile[] {
+  const signature = Buffer.from(archive.subarray(0, 4)).toString('latin1');
+  if (!ZIP_SIGNATURES.includes(signature)) {
+    throw new Error('Artifact is not a zip archive');
+  }
+
+  const files: ArtifactFile[] = [];
+  let totalBytes = 0;
+
+  const unzip = new Unzip(file => {
+    if (file.name.endsWith('/')) {
+      return;
+    }
+    const chunks: Uint8Array[] = [];
+    file.ondata = (error, chunk, final) => {
+      if (error) {
+        throw error;
+      }
+      totalBytes += chunk.length;
+      if (totalBytes > maxUncompressedBytes) {
+        throw new Error(
+          `Artifact expands to more than the ${maxUncompressedBytes} byte limit when extracted`
+        );
+      }
+      chunks.push(chunk);
+      if (final) {
+        files.push({ path: normalizeRepositoryPath(file.name), content: Buffer.concat(chunks) });
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  for (let offset = 0; offset < archive.length; offset += ARCHIVE_CHUNK_BYTES) {
+    const end = offset + ARCHIVE_CHUNK_BYTES;
+    unzip.push(archive.subarray(offset, end), end >= archive.length);
+  }
+  return files;
+}
+
+export async function writeArtifactFiles(directory: string, files: ArtifactFile[]): Promise<void> {
+  for (const file of files) {
+    // Paths were normalized when reading the archive, so they cannot escape the directory
+    const destination = join(directory, file.path);
+    await mkdir(dirname(destination), { recursive: true });
+    await writeFile(destination, file.content);
+  }
+}
+
+/**
+ * The length of the longest prefix of UTF-8 text within `maxBytes`, ending on a character boundary.
+ */
+function utf8PrefixLength(content: Uint8Array, maxBytes: number): number {
+  let end = maxBytes;
+  // Continuation bytes look like 10xxxxxx, back up to the first byte of the character they are in
+  while (end > 0 && (content[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return end;
+}
+
+export function toInlineFile(file: ArtifactFile, maxBytes: number): InlineArtifactFile {
+  const size = file.content.length;
+
+  if (file.content.includes(0)) {
+    return { path: file.path, size, binary: true };
+  }
+
+  const truncated = maxBytes > 0 && size > maxBytes;
+  const content = Buffer.from(
+    truncated ? file.content.subarray(0, utf8PrefixLength(file.content, maxBytes)) : file.content
+  );
+  return {
+    path: file.path,
+    size,
+    content: content.toString('utf-8'),
+    ...(truncated && { truncated }),
+  };
+}
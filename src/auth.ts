@@ -0,0 +1,144 @@
+import { createAppAuth, type InstallationAccessTokenAuthentication } from '@octokit/auth-app';
+import type { Octokit } from '@octokit/rest';
+import { logger } from './logger.js';
+import type { RepositoryTarget } from './repositories.js';
+
+export const DEFAULT_API_URL = 'https://api.github.com';
+
+export interface AuthConfig {
+  // A personal access token, used unless GitHub App credentials are given
+  token: string;
+  appId: string;
+  appPrivateKey: string;
+  appInstallationId: string;
+  // The REST API root, e.g. https://github.example.com/api/v3 for GitHub Enterprise Server
+  apiUrl: string;
+}
+
+type Access = 'read' | 'write';
+
+// GitHub App permissions the server needs, and what for. Missing optional permissions only
+// disable the features that use them
+const APP_PERMISSIONS: { name: string; access: Access; required: boolean; usedFor: string }[] = [
+  { name: 'contents', access: 'write', required: true, usedFor: 'pushing execution branches' },
+  { name: 'workflows', access: 'write', required: true, usedFor: 'pushing workflow files' },
+  { name: 'actions', access: 'write', required: true, usedFor: 'dispatching and cancelling runs' },
+  { name: 'checks', access: 'read', required: false, usedFor: 'reading annotations' },
+  {
+    name: 'pull_requests',
+    access: 'write',
+    required: false,
+    usedFor: 'simulating pull_request events',
+  },
+];
+
+export function usesAppAuth(config: AuthConfig): boolean {
+  return Boolean(config.appId && config.appPrivateKey && config.appInstallationId);
+}
+
+/**
+ * Build the Octokit options for the configured credentials. GitHub App installation tokens expire
+ * after an hour, so they are minted on demand and refreshed before they expire.
+ */
+export function getOctokitOptions(config: AuthConfig): ConstructorParameters<typeof Octokit>[0] {
+  if (usesAppAuth(config)) {
+    return {
+      baseUrl: config.apiUrl,
+      authStrategy: createAppAuth,
+      auth: {
+        appId: config.appId,
+        privateKey: config.appPrivateKey,
+        installationId: Number(config.appInstallationId),
+      },
+    };
+  }
+
+  return { baseUrl: config.apiUrl, auth: config.token };
+}
+
+function hasAccess(granted: string | undefined, access: Access): boolean {
+  return granted === 'write' || (access === 'read' && granted === 'read');
+}
+
+/**
+ * Check that the credentials can reach a repository and have the scopes or permissions needed to
+ * execute workflows in it. Throws when access or a required permission is missing.
+ */
+export async function verifyRepositoryAccess(
+  octokit: Octokit,
+  config: AuthConfig,
+  target: RepositoryTarget
+): Promise<void> {
+  const fullName = `${target.owner}/${target.repo}`;
+  logger.logGitHubAPI('get-repository', target.owner, target.repo, { check: 'startup-access' });
+
+  let repository;
+  try {
+    repository = await octokit.repos.get({ owner: target.owner, repo: target.repo });
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    const accessError = new Error(
+      status === 401
+        ? `The GitHub credentials were rejected by ${config.apiUrl}`
+        : status === 404 || status === 403
+          ? `The GitHub credentials cannot access ${fullName} at ${config.apiUrl}`
+          : `Failed to check access to ${fullName} at ${config.apiUrl}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    logger.error('Repository access check failed', accessError, { repository: fullName, status });
+    throw accessError;
+  }
+
+  const missing: string[] = [];
+  const missingOptional: string[] = [];
+
+  if (usesAppAuth(config)) {
+    const authentication = (await octokit.auth({
+      type: 'installation',
+    })) as InstallationAccessTokenAuthentication;
+
+    for (const permission of APP_PERMISSIONS) {
+      if (!hasAccess(authentication.permissions[permission.name], permission.access)) {
+        (permission.required ? missing : missingOptional).push(
+          `${permission.name}: ${permission.access} (${permission.usedFor})`
+        );
+      }
+    }
+  } else {
+    const scopesHeader = repository.headers['x-oauth-scopes'];
+    if (scopesHeader !== undefined) {
+      // Classic personal access tokens report their scopes
+      const scopes = String(scopesHeader)
+        .split(',')
+        .map(scope => scope.trim());
+      if (
+        !scopes.includes('repo') &&
+        (repository.data.private || !scopes.includes('public_repo'))
+      ) {
+        missing.push(repository.data.private ? 'repo' : 'repo or public_repo');
+      }
+      if (!scopes.includes('workflow')) {
+        missing.push('workflow');
+      }
+    } else if (repository.data.permissions && !repository.data.permissions.push) {
+      // Fine-grained tokens don't report their permissions, so only write access can be checked
+      missing.push('write access to the repository');
+    }
+  }
+
+  if (missingOptional.length > 0) {
+    logger.warn('GitHub App is missing optional permissions', {
+      repository: fullName,
+      missing: missingOptional,
+    });
+  }
+
+  if (missing.length > 0) {
+    const error = new Error(
+      `The GitHub credentials are missing permissions required to execute workflows in ${fullName}: ${missing.join(', ')}`
+    );
+    logger.error('Repository access check failed', error, { repository: fullName, missing });
+    throw error;
+  }
+
+  logger.info('Repository access verified', { repository: fullName });
+}
@@ -0,0 +1,155 @@
+import type { Octokit } from '@octokit/rest';
+import { logger } from './logger.js';
+import { sleep } from './polling.js';
+import type { RepositoryTarget } from './repositories.js';
+
+// How long to wait for a cancelled run to stop before giving up on it
+const CANCEL_WAIT_MS = 30000;
+const CANCEL_POLL_INTERVAL_MS = 2000;
+
+export async function openPullRequest(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  branchName: string,
+  baseBranch: string
+): Promise<{ number: number; html_url: string }> {
+  logger.logWorkflowExecution('opening-pull-request', branchName, { baseBranch });
+  logger.logGitHubAPI('create-pull-request', target.owner, target.repo, {
+    head: branchName,
+    base: baseBranch,
+  });
+
+  const { data: pullRequest } = await octokit.pulls.create({
+    owner: target.owner,
+    repo: target.repo,
+    head: branchName,
+    base: baseBranch,
+    title: `MCP executed workflow (${branchName})`,
+    body: 'Temporary pull request opened to run a workflow on the `pull_request` event. It is closed automatically when the run finishes.',
+    draft: true,
+  });
+
+  logger.info('Pull request opened successfully', {
+    number: pullRequest.number,
+    htmlUrl: pullRequest.html_url,
+    baseBranch,
+  });
+  return { number: pullRequest.number, html_url: pullRequest.html_url };
+}
+
+export async function closePullRequest(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  pullNumber: number
+): Promise<void> {
+  try {
+    logger.logGitHubAPI('close-pull-request', target.owner, target.repo, {
+      pullNumber,
+    });
+    await octokit.pulls.update({
+      owner: target.owner,
+      repo: target.repo,
+      pull_number: pullNumber,
+      state: 'closed',
+    });
+    logger.info('Pull request closed successfully', { pullNumber });
+  } catch (error) {
+    logger.warn('Failed to close pull request', {
+      pullNumber,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Cancel a run and wait for it to stop. Callers cleaning up after a cancelled request pass no
+ * signal, as the wait must outlive the request for the run to stop before its branch goes.
+ */
+export async function cancelRunAndWait(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  runId: number,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    logger.logGitHubAPI('cancel-workflow-run', target.owner, target.repo, { runId });
+    await octokit.actions.cancelWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
+    });
+  } catch (error) {
+    // 409 means the run has already completed
+    if ((error as { status?: number }).status !== 409) {
+      logger.warn('Failed to cancel workflow run', {
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return;
+  }
+
+  // Cancelling is asynchronous, so wait (briefly) for the run to stop before its branch goes
+  const startTime = Date.now();
+  while (Date.now() - startTime < CANCEL_WAIT_MS) {
+    await sleep(CANCEL_POLL_INTERVAL_MS, signal);
+    logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, { runId });
+    const { data: run } = await octokit.actions.getWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
+    });
+    if (run.status === 'completed') {
+      logger.info('Workflow run cancelled', { runId, conclusion: run.conclusion });
+      return;
+    }
+  }
+
+  logger.warn('Workflow run did not stop within the wait period after cancelling', { runId });
+}
+
+export async function cancelBranchRuns(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  branchName: string
+): Promise<void> {
+  try {
+    logger.logGitHubAPI('list-workflow-runs', target.owner, target.repo, { branch: branchName });
+    const { data } = await octokit.actions.listWorkflowRunsForRepo({
+      owner: target.owner,
+      repo: target.repo,
+      branch: branchName,
+    });
+    for (const run of data.workflow_runs.filter(run => run.status !== 'completed')) {
+      await cancelRunAndWait(octokit, target, run.id);
+    }
+  } catch (error) {
+    logger.warn('Failed to cancel workflow runs of branch', {
+      branchName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function deleteBranch(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  branchName: string
+): Promise<void> {
+  logger.logWorkflowExecution('cleaning-up', branchName);
+  try {
+    logger.logGitHubAPI('delete-ref', target.owner, target.repo, {
+      ref: `heads/${branchName}`,
+    });
+    await octokit.git.deleteRef({
+      owner: target.owner,
+      repo: target.repo,
+      ref: `heads/${branchName}`,
+    });
+    logger.logCleanup(branchName, true);
+  } catch (cleanupError) {
+    const error = cleanupError instanceof Error ? cleanupError : new Error(String(cleanupError));
+    logger.logCleanup(branchName, false, error);
+    console.warn(`Failed to cleanup branch ${branchName}:`, cleanupError);
+  }
+}
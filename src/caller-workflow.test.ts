@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as YAML from 'yaml';
+import {
+  CALLER_JOB_ID,
+  generateCallerWorkflow,
+  toCalledJobName,
+  toWorkflowCallConfig,
+} from './caller-workflow.js';
+import { getEventConfig, validateWorkflowInputs } from './inputs.js';
+import { applySourceEdits, parseWorkflowDocument, replaceValue } from './workflow-source.js';
+
+const DISPATCH_WORKFLOW = `name: Deploy
+on:
+  workflow_dispatch:
+    inputs:
+      environment:
+        type: choice
+        options: [staging, production]
+        required: true
+      dry-run:
+        type: boolean
+        default: true
+      replicas:
+        type: number
+      target:
+        type: environment
+permissions:
+  contents: read
+jobs:
+  deploy:
+    runs-on: ubuntu-latest
+    permissions:
+      deployments: write
+    steps:
+      - run: echo \${{ inputs.environment }}
+`;
+
+describe('toWorkflowCallConfig', () => {
+  it('declares the workflow_dispatch inputs with workflow_call types', () => {
+    const dispatchConfig = getEventConfig(YAML.parse(DISPATCH_WORKFLOW).on, 'workflow_dispatch');
+
+    assert.deepEqual(toWorkflowCallConfig(dispatchConfig ?? {}), {
+      inputs: {
+        environment: { required: true, type: 'string' },
+        'dry-run': { default: true, type: 'boolean' },
+        replicas: { type: 'number' },
+        target: { type: 'string' },
+      },
+    });
+  });
+
+  it('returns an empty trigger without inputs', () => {
+    assert.deepEqual(toWorkflowCallConfig({}), {});
+  });
+});
+
+describe('generateCallerWorkflow', () => {
+  it('calls a dispatched workflow on push with its validated inputs', () => {
+    const dispatchConfig = getEventConfig(YAML.parse(DISPATCH_WORKFLOW).on, 'workflow_dispatch');
+    const inputs = validateWorkflowInputs('workflow_dispatch', dispatchConfig ?? {}, {
+      environment: 'staging',
+      'dry-run': 'false',
+      replicas: '3',
+    });
+
+    const document = parseWorkflowDocument(DISPATCH_WORKFLOW);
+    const calledWorkflow = applySourceEdits(DISPATCH_WORKFLOW, [
+      replaceValue(DISPATCH_WORKFLOW, document, ['on'], {
+        workflow_call: toWorkflowCallConfig(dispatchConfig ?? {}),
+      }),
+    ]);
+    const caller = YAML.parse(
+      generateCallerWorkflow('.github/workflows/run.yml', calledWorkflow, inputs)
+    );
+
+    // The called workflow keeps its line numbers and can only be triggered by the caller
+    assert.equal(calledWorkflow.split('\n').length, DISPATCH_WORKFLOW.split('\n').length);
+    assert.deepEqual(Object.keys(YAML.parse(calledWorkflow).on), ['workflow_call']);
+    assert.equal(caller.name, 'Call Deploy');
+    assert.equal(caller.on, 'push');
+    assert.deepEqual(caller.jobs[CALLER_JOB_ID], {
+      permissions: { contents: 'read', deployments: 'write' },
+      uses: './.github/workflows/run.yml',
+      with: { environment: 'staging', 'dry-run': false, replicas: 3 },
+      secrets: 'inherit',
+    });
+  });
+
+  it('leaves the default permissions to workflows with jobs that declare none', () => {
+    const caller = YAML.parse(
+      generateCallerWorkflow(
+        '.github/workflows/run.yml',
+        'on: workflow_call\njobs:\n  a:\n    permissions:\n      contents: write\n  b:\n    runs-on: x\n',
+        {}
+      )
+    );
+
+    assert.deepEqual(caller.jobs[CALLER_JOB_ID], {
+      uses: './.github/workflows/run.yml',
+      secrets: 'inherit',
+    });
+  });
+
+  it('grants write-all when a job asks for it', () => {
+    const caller = YAML.parse(
+      generateCallerWorkflow(
+        '.github/workflows/run.yml',
+        'on: workflow_call\npermissions: read-all\njobs:\n  a:\n    permissions: write-all\n',
+        {}
+      )
+    );
+
+    assert.equal(caller.jobs[CALLER_JOB_ID].permissions, 'write-all');
+  });
+});
+
+describe('toCalledJobName', () => {
+  it('strips the caller job prefix GitHub adds', () => {
+    assert.equal(toCalledJobName(`${CALLER_JOB_ID} / build`), 'build');
+    assert.equal(toCalledJobName('build'), 'build');
+  });
+});
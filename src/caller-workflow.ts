@@ -0,0 +1,113 @@
+import * as YAML from 'yaml';
+import type { WorkflowInputValue } from './inputs.js';
+
+// Job ID of the generated caller of a reusable workflow. GitHub names the called workflow's jobs
+// "<caller job> / <called job>"
+export const CALLER_JOB_ID = 'call';
+
+// workflow_call inputs support fewer types than workflow_dispatch inputs
+const CALL_INPUT_TYPES = ['string', 'number', 'boolean'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function toCalledJobName(jobName: string): string {
+  const prefix = `${CALLER_JOB_ID} / `;
+  return jobName.startsWith(prefix) ? jobName.slice(prefix.length) : jobName;
+}
+
+/**
+ * Turn the configuration of a workflow_dispatch trigger into a workflow_call trigger declaring the
+ * same inputs, so the workflow can be run through a caller workflow. GitHub only registers
+ * workflows pushed to a branch other than the default branch when a push triggers them, so
+ * dispatching a workflow that was just pushed fails. `choice` and `environment` inputs become
+ * strings, as the values were already checked against the declared options.
+ */
+export function toWorkflowCallConfig(
+  dispatchConfig: Record<string, unknown>
+): Record<string, unknown> {
+  if (!isRecord(dispatchConfig.inputs)) {
+    return {};
+  }
+
+  return {
+    inputs: Object.fromEntries(
+      Object.entries(dispatchConfig.inputs).map(([name, declared]) => {
+        const { type, ...config } = isRecord(declared) ? declared : {};
+        delete config.options;
+        return [
+          name,
+          {
+            ...config,
+            type: typeof type === 'string' && CALL_INPUT_TYPES.includes(type) ? type : 'string',
+          },
+        ];
+      })
+    ),
+  };
+}
+
+/**
+ * The permissions to grant the caller job. A called workflow cannot be granted more than its
+ * caller's token has, so the caller grants what the called workflow declares. Returns undefined,
+ * for the repository's default permissions, when a called job relies on the defaults or the
+ * declared permissions cannot be combined.
+ */
+function getCalledPermissions(workflow: unknown): unknown {
+  const jobs = isRecord(workflow) && isRecord(workflow.jobs) ? Object.values(workflow.jobs) : [];
+  const workflowPermissions = isRecord(workflow) ? workflow.permissions : undefined;
+  const jobPermissions = jobs.map(job => (isRecord(job) ? job.permissions : undefined));
+  if (workflowPermissions === undefined && jobPermissions.some(job => job === undefined)) {
+    return undefined;
+  }
+
+  const declared = [workflowPermissions, ...jobPermissions].filter(
+    permissions => permissions !== undefined
+  );
+  if (declared.includes('write-all')) {
+    return 'write-all';
+  }
+
+  const granted: Record<string, string> = {};
+  for (const permissions of declared.filter(isRecord)) {
+    for (const [scope, level] of Object.entries(permissions)) {
+      if (level === 'write' || (level === 'read' && granted[scope] !== 'write')) {
+        granted[scope] = level;
+      }
+    }
+  }
+
+  if (declared.includes('read-all')) {
+    // read-all cannot be combined with the scopes other jobs need
+    return Object.keys(granted).length === 0 ? 'read-all' : undefined;
+  }
+  return granted;
+}
+
+/**
+ * Generate a workflow that runs on push and calls a reusable workflow committed on the same
+ * branch, passing the given inputs and inheriting the repository's secrets.
+ */
+export function generateCallerWorkflow(
+  workflowFileName: string,
+  workflowContent: string,
+  inputs: Record<string, WorkflowInputValue>
+): string {
+  const workflow = YAML.parse(workflowContent);
+  const workflowName = isRecord(workflow) ? workflow.name : undefined;
+  const permissions = getCalledPermissions(workflow);
+
+  return YAML.stringify({
+    name: `Call ${typeof workflowName === 'string' ? workflowName : workflowFileName}`,
+    on: 'push',
+    jobs: {
+      [CALLER_JOB_ID]: {
+        ...(permissions !== undefined ? { permissions } : {}),
+        uses: `./${workflowFileName}`,
+        ...(Object.keys(inputs).length > 0 ? { with: inputs } : {}),
+        secrets: 'inherit',
+      },
+    },
+  });
+}
@@ -0,0 +1,139 @@
+import type { Octokit } from '@octokit/rest';
+import { deleteBranch } from './branches.js';
+import { logger } from './logger.js';
+import type { RepositoryTarget } from './repositories.js';
+
+// Branches created without a custom branch_name, e.g. mcp-workflow-1718000000000-1a2b3c4d
+export const EXECUTION_BRANCH_PREFIX = 'mcp-workflow-';
+
+export interface StaleExecutionResult {
+  branch_name: string;
+  created_at: string;
+  runs: {
+    id: number;
+    status: string | null;
+    html_url: string;
+    deleted?: boolean;
+    error?: string;
+  }[];
+  branch_deleted: boolean;
+  // Set when the branch was left alone, e.g. because one of its runs is still active
+  skipped_reason?: string;
+  error?: string;
+}
+
+export interface StaleCleanupOptions {
+  maxAgeMinutes: number;
+  deleteRuns: boolean;
+  dryRun: boolean;
+}
+
+/**
+ * Delete the execution branches of a repository that are older than the maximum age and whose
+ * runs have all completed, e.g. left behind by a server process that was killed. `activeBranches`
+ * are the branches of executions this process is still responsible for, which are never stale.
+ */
+export async function cleanupStaleExecutions(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  activeBranches: Set<string>,
+  options: StaleCleanupOptions
+): Promise<StaleExecutionResult[]> {
+  logger.info('Looking for stale execution branches', { ...target, ...options });
+
+  logger.logGitHubAPI('list-matching-refs', target.owner, target.repo, {
+    ref: `heads/${EXECUTION_BRANCH_PREFIX}`,
+  });
+  const refs = await octokit.paginate(octokit.git.listMatchingRefs, {
+    owner: target.owner,
+    repo: target.repo,
+    ref: `heads/${EXECUTION_BRANCH_PREFIX}`,
+    per_page: 100,
+  });
+
+  const cutoff = Date.now() - options.maxAgeMinutes * 60000;
+
+  const results: StaleExecutionResult[] = [];
+  for (const ref of refs) {
+    const branchName = ref.ref.replace(/^refs\/heads\//, '');
+    // The branch name holds its creation time, followed by an ID on newer branches
+    const timestamp = branchName.slice(EXECUTION_BRANCH_PREFIX.length).split('-')[0];
+    if (!/^\d+$/.test(timestamp) || Number(timestamp) > cutoff || activeBranches.has(branchName)) {
+      continue;
+    }
+
+    results.push(await cleanupStaleBranch(octokit, target, branchName, Number(timestamp), options));
+  }
+
+  logger.info('Stale execution cleanup finished', {
+    ...target,
+    dryRun: options.dryRun,
+    staleBranches: results.length,
+  });
+  return results;
+}
+
+async function cleanupStaleBranch(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  branchName: string,
+  createdAt: number,
+  options: StaleCleanupOptions
+): Promise<StaleExecutionResult> {
+  const result: StaleExecutionResult = {
+    branch_name: branchName,
+    created_at: new Date(createdAt).toISOString(),
+    runs: [],
+    branch_deleted: false,
+  };
+
+  try {
+    logger.logGitHubAPI('list-workflow-runs', target.owner, target.repo, { branch: branchName });
+    const runs = await octokit.paginate(octokit.actions.listWorkflowRunsForRepo, {
+      owner: target.owner,
+      repo: target.repo,
+      branch: branchName,
+      per_page: 100,
+    });
+    result.runs = runs.map(run => ({ id: run.id, status: run.status, html_url: run.html_url }));
+
+    // The branch may belong to another server process, or to this one before a restart, whose
+    // run is still queued or in progress
+    if (result.runs.some(run => run.status !== 'completed')) {
+      result.skipped_reason = 'A workflow run on the branch has not completed yet';
+      logger.info('Skipping stale execution branch with an active run', { branchName });
+      return result;
+    }
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    for (const run of result.runs) {
+      try {
+        if (options.deleteRuns) {
+          logger.logGitHubAPI('delete-workflow-run', target.owner, target.repo, {
+            runId: run.id,
+          });
+          await octokit.actions.deleteWorkflowRun({
+            owner: target.owner,
+            repo: target.repo,
+            run_id: run.id,
+          });
+          run.deleted = true;
+        }
+      } catch (error) {
+        run.error = error instanceof Error ? error.message : String(error);
+        logger.warn('Failed to clean up stale workflow run', { runId: run.id, error: run.error });
+      }
+    }
+
+    await deleteBranch(octokit, target, branchName);
+    result.branch_deleted = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    logger.warn('Failed to clean up stale execution branch', { branchName, error: result.error });
+  }
+
+  return result;
+}
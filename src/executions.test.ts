@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Octokit } from '@octokit/rest';
+import { createExecutionRegistry, type WorkflowExecution } from './executions.js';
+
+/**
+ * Create a registry whose GitHub requests all succeed, recording each of them.
+ */
+function createRegistry() {
+  const requests: string[] = [];
+  const fetch = async (url: string, init: { method: string }) => {
+    requests.push(`${init.method} ${decodeURIComponent(new URL(url).pathname)}`);
+    return new Response(init.method === 'DELETE' ? null : '{}', {
+      status: init.method === 'DELETE' ? 204 : 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  };
+
+  const registry = createExecutionRegistry(new Octokit({ auth: 'test', request: { fetch } }));
+  return { registry, requests };
+}
+
+function createExecution(runId: number, overrides: Partial<WorkflowExecution> = {}) {
+  return {
+    target: { owner: 'octo', repo: 'repo' },
+    runId,
+    branchName: `mcp-workflow-${runId}`,
+    workflowFileName: '.github/workflows/run.yml',
+    htmlUrl: `https://github.com/octo/repo/actions/runs/${runId}`,
+    baseRef: 'main',
+    baseSha: 'abc',
+    startedAt: new Date().toISOString(),
+    event: 'push',
+    state: 'running',
+    branchDeleted: false,
+    keepBranchMinutes: 0,
+    polling: { detectionTimeoutMs: 1000, executionTimeoutMs: 1000, pollIntervalMs: 1000 },
+    jobMatrices: [],
+    ...overrides,
+  } satisfies WorkflowExecution;
+}
+
+describe('createExecutionRegistry', () => {
+  it('closes the pull request and deletes the branch once', async () => {
+    const { registry, requests } = createRegistry();
+    const execution = createExecution(1, { pullRequestNumber: 7 });
+    registry.add(execution);
+
+    await registry.cleanup(execution);
+    await registry.cleanup(execution);
+
+    assert.equal(execution.branchDeleted, true);
+    assert.deepEqual(requests, [
+      'PATCH /repos/octo/repo/pulls/7',
+      'DELETE /repos/octo/repo/git/refs/heads/mcp-workflow-1',
+    ]);
+    clearTimeout(execution.retentionTimer);
+  });
+
+  it('keeps the branch of a finished execution until it expires', () => {
+    const { registry, requests } = createRegistry();
+    const execution = createExecution(1, { state: 'completed', keepBranchMinutes: 5 });
+    registry.add(execution);
+
+    registry.scheduleCleanup(execution);
+
+    assert.ok(execution.branchExpiresAt);
+    assert.deepEqual(requests, []);
+    clearTimeout(execution.cleanupTimer);
+  });
+
+  it('lists the branches that executions still need', async () => {
+    const { registry } = createRegistry();
+    const deleted = createExecution(1);
+    registry.add(deleted);
+    registry.add(createExecution(2));
+    registry.add(createExecution(3, { target: { owner: 'octo', repo: 'other' } }));
+    await registry.cleanup(deleted);
+
+    assert.deepEqual(
+      [...registry.activeBranches({ owner: 'octo', repo: 'repo' })],
+      ['mcp-workflow-2']
+    );
+    clearTimeout(deleted.retentionTimer);
+  });
+
+  it('forgets the oldest finished executions beyond the maximum', () => {
+    const { registry } = createRegistry();
+    for (let runId = 1; runId <= 100; runId++) {
+      registry.add(createExecution(runId, { state: 'completed', branchDeleted: true }));
+    }
+    registry.add(createExecution(101));
+
+    assert.equal(registry.list().length, 100);
+    assert.equal(registry.get(1), undefined);
+    assert.ok(registry.get(2));
+    assert.ok(registry.get(101));
+  });
+});
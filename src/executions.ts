@@ -0,0 +1,169 @@
+import type { Octokit } from '@octokit/rest';
+import { closePullRequest, deleteBranch } from './branches.js';
+import type { JobSelection } from './jobs.js';
+import { logger } from './logger.js';
+import type { JobMatrix } from './matrix.js';
+import type { PolicyFinding } from './policy.js';
+import type { PollingOptions } from './polling.js';
+import type { RepositoryTarget } from './repositories.js';
+import { formatRunUri } from './resources.js';
+import type { TestReportOptions, WorkflowRunResult } from './run-results.js';
+
+export const WORKFLOW_TRIGGERS = ['push', 'workflow_dispatch', 'pull_request'] as const;
+
+// Reusable workflows cannot be simulated, they are run through a generated caller workflow instead
+export type WorkflowTrigger = (typeof WORKFLOW_TRIGGERS)[number] | 'workflow_call';
+
+// Finished executions are forgotten this long after their branch is deleted, and the oldest are
+// forgotten early beyond the maximum, so results and logs don't pile up in memory
+const EXECUTION_RETENTION_MINUTES = 60;
+const MAX_RETAINED_EXECUTIONS = 100;
+
+export interface WorkflowExecution {
+  target: RepositoryTarget;
+  runId: number;
+  branchName: string;
+  workflowFileName: string;
+  // Set when a reusable workflow is run through a generated caller workflow
+  callerWorkflowFileName?: string;
+  htmlUrl: string;
+  baseRef: string;
+  baseSha: string;
+  startedAt: string;
+  event: WorkflowTrigger;
+  state: 'running' | 'completed' | 'cancelled' | 'failed';
+  branchDeleted: boolean;
+  keepBranchMinutes: number;
+  branchExpiresAt?: string;
+  cleanupTimer?: NodeJS.Timeout;
+  retentionTimer?: NodeJS.Timeout;
+  pullRequestNumber?: number;
+  pullRequestUrl?: string;
+  testReport?: TestReportOptions;
+  polling: PollingOptions;
+  jobMatrices: JobMatrix[];
+  jobSelection?: JobSelection;
+  policyFindings?: PolicyFinding[];
+  result?: WorkflowRunResult;
+  error?: string;
+}
+
+export interface ExecutionRegistry {
+  get(runId: number): WorkflowExecution | undefined;
+  list(): WorkflowExecution[];
+  // Track a new execution, forgetting the oldest finished ones beyond the maximum
+  add(execution: WorkflowExecution): void;
+  // Keep the branch of a finished execution for its keepBranchMinutes, then clean it up
+  scheduleCleanup(execution: WorkflowExecution): void;
+  // Close the pull request and delete the branch of an execution, once
+  cleanup(execution: WorkflowExecution): Promise<void>;
+  // Branches in a repository that executions still need, so they are never swept as stale
+  activeBranches(target: RepositoryTarget): Set<string>;
+}
+
+/**
+ * Create the registry of the executions started by this server process, shared by every client
+ * session. It owns the branch and pull request of each execution until they are cleaned up.
+ */
+export function createExecutionRegistry(octokit: Octokit): ExecutionRegistry {
+  const executions = new Map<number, WorkflowExecution>();
+
+  // Drop a finished execution, after which its run is treated like any run not started by this
+  // server process
+  const forget = (execution: WorkflowExecution) => {
+    clearTimeout(execution.retentionTimer);
+    if (executions.get(execution.runId) === execution) {
+      executions.delete(execution.runId);
+      logger.debug('Forgot finished execution', { runId: execution.runId });
+    }
+  };
+
+  const prune = () => {
+    const finished = [...executions.values()].filter(
+      execution => execution.state !== 'running' && execution.branchDeleted
+    );
+    const excess = executions.size - MAX_RETAINED_EXECUTIONS;
+    for (const execution of finished.slice(0, Math.max(excess, 0))) {
+      forget(execution);
+    }
+  };
+
+  const cleanup = async (execution: WorkflowExecution) => {
+    clearTimeout(execution.cleanupTimer);
+    execution.cleanupTimer = undefined;
+    execution.branchExpiresAt = undefined;
+    if (execution.branchDeleted) {
+      return;
+    }
+
+    execution.branchDeleted = true;
+    execution.retentionTimer = setTimeout(
+      () => forget(execution),
+      EXECUTION_RETENTION_MINUTES * 60000
+    );
+    execution.retentionTimer.unref();
+    if (execution.pullRequestNumber) {
+      await closePullRequest(octokit, execution.target, execution.pullRequestNumber);
+    }
+    await deleteBranch(octokit, execution.target, execution.branchName);
+  };
+
+  const scheduleCleanup = (execution: WorkflowExecution) => {
+    const delay = execution.keepBranchMinutes * 60000;
+    execution.branchExpiresAt = new Date(Date.now() + delay).toISOString();
+    execution.cleanupTimer = setTimeout(() => void cleanup(execution), delay);
+    // Don't keep the process alive just to delete the branch
+    execution.cleanupTimer.unref();
+
+    logger.logWorkflowExecution('keeping-branch', execution.branchName, {
+      runId: execution.runId,
+      expiresAt: execution.branchExpiresAt,
+    });
+  };
+
+  return {
+    get: runId => executions.get(runId),
+    list: () => [...executions.values()],
+    add: execution => {
+      executions.set(execution.runId, execution);
+      prune();
+    },
+    scheduleCleanup,
+    cleanup,
+    activeBranches: target =>
+      new Set(
+        [...executions.values()]
+          .filter(
+            execution =>
+              !execution.branchDeleted &&
+              execution.target.owner === target.owner &&
+              execution.target.repo === target.repo
+          )
+          .map(execution => execution.branchName)
+      ),
+  };
+}
+
+/**
+ * The handle of an execution returned to clients, to follow the run up with the other tools.
+ */
+export function toRunHandle(execution: WorkflowExecution) {
+  return {
+    owner: execution.target.owner,
+    repo: execution.target.repo,
+    run_id: execution.runId,
+    branch_name: execution.branchName,
+    workflow_file_path: execution.workflowFileName,
+    caller_workflow_file_path: execution.callerWorkflowFileName,
+    html_url: execution.htmlUrl,
+    base_ref: execution.baseRef,
+    base_sha: execution.baseSha,
+    event: execution.event,
+    pull_request_url: execution.pullRequestUrl,
+    state: execution.state,
+    branch_expires_at: execution.branchExpiresAt,
+    resource_uri: formatRunUri(execution.target, execution.runId),
+    job_selection: execution.jobSelection,
+    policy_findings: execution.policyFindings,
+  };
+}
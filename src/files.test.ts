@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { normalizeRepositoryPath, readDirectoryFiles } from './files.js';
+
+describe('normalizeRepositoryPath', () => {
+  it('normalizes paths relative to the repository root', () => {
+    assert.equal(normalizeRepositoryPath('./scripts//build.sh'), 'scripts/build.sh');
+    assert.equal(normalizeRepositoryPath('a/../b.txt'), 'b.txt');
+  });
+
+  it('rejects paths outside the repository and paths that name no file', () => {
+    assert.throws(() => normalizeRepositoryPath('/etc/passwd'), /must be relative/);
+    assert.throws(() => normalizeRepositoryPath('a/../../b'), /must be relative/);
+    assert.throws(() => normalizeRepositoryPath('scripts/'), /must name a file/);
+    assert.throws(() => normalizeRepositoryPath('.'), /must name a file/);
+  });
+});
+
+describe('readDirectoryFiles', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'read-directory-files-'));
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it('reads the files of nested directories, skipping .git and node_modules', async () => {
+    await mkdir(join(directory, 'scripts', 'ci'), { recursive: true });
+    await mkdir(join(directory, '.git'));
+    await mkdir(join(directory, 'lib', 'node_modules', 'dep'), { recursive: true });
+    await writeFile(join(directory, 'README.md'), '# Test');
+    await writeFile(join(directory, 'scripts', 'ci', 'build.sh'), 'make');
+    await chmod(join(directory, 'scripts', 'ci', 'build.sh'), 0o755);
+    await writeFile(join(directory, '.git', 'HEAD'), 'ref: refs/heads/main');
+    await writeFile(join(directory, 'lib', 'node_modules', 'dep', 'index.js'), '');
+    await writeFile(join(directory, 'lib', 'index.js'), 'export {};');
+
+    const files = await readDirectoryFiles(directory);
+
+    assert.deepEqual(
+      files
+        .map(file => ({
+          path: file.path,
+          content: Buffer.from(file.content, 'base64').toString(),
+          executable: file.executable,
+        }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+      [
+        { path: 'lib/index.js', content: 'export {};', executable: false },
+        { path: 'README.md', content: '# Test', executable: false },
+        { path: 'scripts/ci/build.sh', content: 'make', executable: true },
+      ]
+    );
+    assert.ok(files.every(file => file.encoding === 'base64'));
+  });
+});
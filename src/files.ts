@@ -0,0 +1,66 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, posix, sep } from 'path';
+
+export interface RepositoryFile {
+  path: string;
+  content: string;
+  encoding: 'utf-8' | 'base64';
+  executable: boolean;
+}
+
+const IGNORED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/**
+ * Normalize a path to be committed so it is relative to the repository root.
+ * Throws for absolute paths and paths that escape the repository.
+ */
+export function normalizeRepositoryPath(path: string): string {
+  const normalized = posix.normalize(path.split(sep).join('/'));
+
+  if (posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Invalid repository path '${path}': must be relative to the repository root`);
+  }
+  if (normalized === '.' || normalized.endsWith('/')) {
+    throw new Error(`Invalid repository path '${path}': must name a file`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Read every file below a local directory, skipping .git and node_modules, with paths relative
+ * to the directory. Contents are base64 encoded so binary files survive the upload.
+ */
+export async function readDirectoryFiles(directory: string): Promise<RepositoryFile[]> {
+  const files: RepositoryFile[] = [];
+
+  // Walked by hand, as recursive readdir needs Node 20
+  const walk = async (subdirectory: string) => {
+    const entries = await readdir(join(directory, subdirectory), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const path = join(subdirectory, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          await walk(path);
+        }
+        continue;
+      }
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      const absolutePath = join(directory, path);
+      const [content, stats] = await Promise.all([readFile(absolutePath), stat(absolutePath)]);
+      files.push({
+        path: normalizeRepositoryPath(path),
+        content: content.toString('base64'),
+        encoding: 'base64',
+        executable: (stats.mode & 0o111) !== 0,
+      });
+    }
+  };
+  await walk('');
+
+  return files;
+}
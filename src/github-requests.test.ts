@@ -0,0 +1,228 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Octokit } from '@octokit/rest';
+import {
+  DEFAULT_REQUEST_LAYER_OPTIONS,
+  getRetryDelay,
+  installRequestLayer,
+  parseRateLimit,
+  type RequestLayerOptions,
+} from './github-requests.js';
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// Short delays so retries don't slow the tests down
+const TEST_OPTIONS: RequestLayerOptions = {
+  ...DEFAULT_REQUEST_LAYER_OPTIONS,
+  baseRetryDelayMs: 1,
+  maxRetryDelayMs: 5,
+  mutationSpacingMs: 0,
+};
+
+/**
+ * Create an Octokit with the request layer whose requests are answered by `responses` in order,
+ * repeating the last one once they run out.
+ */
+function createOctokit(responses: StubResponse[]) {
+  const requests: { method: string; url: string }[] = [];
+  const fetch = async (url: string, init: { method: string }) => {
+    const { status, headers, body } = responses[Math.min(requests.length, responses.length - 1)];
+    requests.push({ method: init.method, url });
+    return new Response(status === 204 ? null : JSON.stringify(body ?? {}), {
+      status,
+      headers: { 'content-type': 'application/json', ...headers },
+    });
+  };
+
+  const octokit = new Octokit({ auth: 'test', request: { fetch } });
+  const layer = installRequestLayer(octokit, TEST_OPTIONS);
+  return { octokit, layer, requests };
+}
+
+const getRepository = (octokit: Octokit) => octokit.repos.get({ owner: 'octo', repo: 'repo' });
+
+const dispatchWorkflow = (octokit: Octokit) =>
+  octokit.actions.createWorkflowDispatch({
+    owner: 'octo',
+    repo: 'repo',
+    workflow_id: 'ci.yml',
+    ref: 'main',
+  });
+
+const resetNow = () => String(Math.floor(Date.now() / 1000));
+
+describe('parseRateLimit', () => {
+  it('reads the rate limit headers', () => {
+    assert.deepEqual(
+      parseRateLimit({
+        'x-ratelimit-limit': '5000',
+        'x-ratelimit-remaining': '4990',
+        'x-ratelimit-reset': '1700000000',
+        'x-ratelimit-resource': 'core',
+      }),
+      { limit: 5000, remaining: 4990, resetAt: 1700000000000, resource: 'core' }
+    );
+  });
+
+  it('returns undefined without rate limit headers', () => {
+    assert.equal(parseRateLimit({}), undefined);
+    assert.equal(parseRateLimit(undefined), undefined);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const error = (status: number, headers: Record<string, string> = {}, message = '') => ({
+    status,
+    message,
+    response: { headers },
+  });
+
+  it('waits for Retry-After', () => {
+    assert.equal(getRetryDelay(error(429, { 'retry-after': '5' }), 0, 'POST', TEST_OPTIONS), 5000);
+  });
+
+  it('waits a minute for secondary rate limits without Retry-After', () => {
+    assert.equal(
+      getRetryDelay(error(403, {}, 'You have exceeded a secondary rate limit'), 0, 'GET', {
+        ...TEST_OPTIONS,
+        maxRateLimitWaitMs: 120000,
+      }),
+      60000
+    );
+  });
+
+  it('gives up when the rate limit resets too late', () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 3600);
+    assert.equal(
+      getRetryDelay(
+        error(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }),
+        0,
+        'GET',
+        TEST_OPTIONS
+      ),
+      undefined
+    );
+  });
+
+  it('does not retry server errors on POST requests', () => {
+    assert.equal(getRetryDelay(error(502), 0, 'POST', TEST_OPTIONS), undefined);
+  });
+
+  it('does not retry other client errors', () => {
+    assert.equal(
+      getRetryDelay(error(403, {}, 'Resource not accessible'), 0, 'GET', TEST_OPTIONS),
+      undefined
+    );
+    assert.equal(getRetryDelay(error(404), 0, 'GET', TEST_OPTIONS), undefined);
+  });
+
+  it('stops after the maximum number of retries', () => {
+    assert.equal(
+      getRetryDelay(error(502), TEST_OPTIONS.maxRetries, 'GET', TEST_OPTIONS),
+      undefined
+    );
+  });
+});
+
+describe('installRequestLayer', () => {
+  it('retries requests rejected with 429', async () => {
+    const { octokit, requests } = createOctokit([
+      { status: 429, headers: { 'retry-after': '0' }, body: { message: 'Too many requests' } },
+      { status: 200, body: { full_name: 'octo/repo' } },
+    ]);
+
+    const { data } = await getRepository(octokit);
+
+    assert.equal(data.full_name, 'octo/repo');
+    assert.equal(requests.length, 2);
+  });
+
+  it('retries requests rejected with 403 and Retry-After', async () => {
+    const { octokit, requests } = createOctokit([
+      {
+        status: 403,
+        headers: { 'retry-after': '0' },
+        body: { message: 'You have exceeded a secondary rate limit' },
+      },
+      { status: 204 },
+    ]);
+
+    await dispatchWorkflow(octokit);
+
+    assert.equal(requests.length, 2);
+    assert.ok(requests.every(request => request.method === 'POST'));
+  });
+
+  it('waits for the reset of an exhausted rate limit', async () => {
+    const { octokit, layer, requests } = createOctokit([
+      {
+        status: 403,
+        headers: {
+          'x-ratelimit-limit': '5000',
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': resetNow(),
+        },
+        body: { message: 'API rate limit exceeded' },
+      },
+      {
+        status: 200,
+        headers: {
+          'x-ratelimit-limit': '5000',
+          'x-ratelimit-remaining': '4999',
+          'x-ratelimit-reset': resetNow(),
+        },
+        body: { full_name: 'octo/repo' },
+      },
+    ]);
+
+    await getRepository(octokit);
+
+    assert.equal(requests.length, 2);
+    assert.equal(layer.getRateLimit()?.remaining, 4999);
+  });
+
+  it('retries GET requests failing with 502', async () => {
+    const { octokit, requests } = createOctokit([
+      { status: 502, body: { message: 'Bad Gateway' } },
+      { status: 502, body: { message: 'Bad Gateway' } },
+      { status: 200, body: { full_name: 'octo/repo' } },
+    ]);
+
+    await getRepository(octokit);
+
+    assert.equal(requests.length, 3);
+  });
+
+  it('gives up on GET requests after the maximum number of retries', async () => {
+    const { octokit, requests } = createOctokit([
+      { status: 502, body: { message: 'Bad Gateway' } },
+    ]);
+
+    await assert.rejects(getRepository(octokit), { status: 502 });
+    assert.equal(requests.length, TEST_OPTIONS.maxRetries + 1);
+  });
+
+  it('does not retry POST requests failing with 502', async () => {
+    const { octokit, requests } = createOctokit([
+      { status: 502, body: { message: 'Bad Gateway' } },
+      { status: 204 },
+    ]);
+
+    await assert.rejects(dispatchWorkflow(octokit), { status: 502 });
+    assert.equal(requests.length, 1);
+  });
+
+  it('does not retry other client errors', async () => {
+    const { octokit, requests } = createOctokit([
+      { status: 404, body: { message: 'Not Found' } },
+      { status: 200, body: { full_name: 'octo/repo' } },
+    ]);
+
+    await assert.rejects(getRepository(octokit), { status: 404 });
+    assert.equal(requests.length, 1);
+  });
+});
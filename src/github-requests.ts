@@ -0,0 +1,233 @@
+import type { Octokit } from '@octokit/rest';
+import { logger } from './logger.js';
+
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  resource?: string;
+}
+
+export interface RequestLayerOptions {
+  maxRetries: number;
+  baseRetryDelayMs: number;
+  maxRetryDelayMs: number;
+  // Requests that would have to wait longer than this for the rate limit fail instead
+  maxRateLimitWaitMs: number;
+  maxConcurrentRequests: number;
+  // GitHub recommends spacing out mutating requests to stay clear of secondary rate limits
+  mutationSpacingMs: number;
+}
+
+export interface RequestLayer {
+  getRateLimit(): RateLimit | undefined;
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+export const DEFAULT_REQUEST_LAYER_OPTIONS: RequestLayerOptions = {
+  maxRetries: 3,
+  baseRetryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+  maxRateLimitWaitMs: 15 * 60 * 1000,
+  maxConcurrentRequests: 4,
+  mutationSpacingMs: 1000,
+};
+
+// Without a Retry-After header, GitHub asks clients to wait at least a minute after hitting a
+// secondary rate limit
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60000;
+
+// Methods that are safe to repeat after a server error, as the request may have been applied
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+const SERVER_ERROR_STATUSES = [500, 502, 503, 504];
+
+/**
+ * Read the rate limit from GitHub's response headers.
+ */
+export function parseRateLimit(headers: Headers | undefined): RateLimit | undefined {
+  const remaining = Number(headers?.['x-ratelimit-remaining']);
+  if (headers?.['x-ratelimit-remaining'] === undefined || Number.isNaN(remaining)) {
+    return undefined;
+  }
+
+  const reset = Number(headers['x-ratelimit-reset']);
+  return {
+    limit: Number(headers['x-ratelimit-limit']) || remaining,
+    remaining,
+    resetAt: Number.isNaN(reset) ? Date.now() : reset * 1000,
+    resource: headers['x-ratelimit-resource']?.toString(),
+  };
+}
+
+/**
+ * Decide whether a failed request should be retried, and after how long. Rate limited requests
+ * were rejected without effect so are always retried, but server errors are only retried for
+ * idempotent methods: a retried POST could dispatch a workflow twice.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  method: string,
+  options: RequestLayerOptions
+): number | undefined {
+  if (attempt >= options.maxRetries) {
+    return undefined;
+  }
+
+  const { status, message, response } = error as {
+    status?: number;
+    message?: string;
+    response?: { headers?: Headers };
+  };
+  const headers = response?.headers ?? {};
+  const retryAfter = headers['retry-after'];
+  const primaryLimitExhausted = headers['x-ratelimit-remaining']?.toString() === '0';
+  const rateLimited =
+    status === 429 ||
+    (status === 403 &&
+      (retryAfter !== undefined || primaryLimitExhausted || /rate limit/i.test(message ?? '')));
+  const serverError =
+    status !== undefined &&
+    SERVER_ERROR_STATUSES.includes(status) &&
+    IDEMPOTENT_METHODS.includes(method.toUpperCase());
+
+  if (!rateLimited && !serverError) {
+    return undefined;
+  }
+
+  let delay: number;
+  if (retryAfter !== undefined && !Number.isNaN(Number(retryAfter))) {
+    delay = Number(retryAfter) * 1000;
+  } else if (primaryLimitExhausted) {
+    delay = Number(headers['x-ratelimit-reset']) * 1000 - Date.now();
+  } else if (rateLimited) {
+    delay = SECONDARY_RATE_LIMIT_DELAY_MS;
+  } else {
+    // Exponential backoff with jitter, so concurrent executions don't retry in lockstep
+    delay =
+      Math.min(options.baseRetryDelayMs * 2 ** attempt, options.maxRetryDelayMs) +
+      Math.random() * options.baseRetryDelayMs;
+  }
+
+  return delay > options.maxRateLimitWaitMs ? undefined : Math.max(delay, 0);
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Route every request of an Octokit instance through a shared layer that retries rate limited and
+ * failed requests, limits how many run at once, spaces out mutating requests and tracks the rate
+ * limit budget. Executions share the instance, so the limits apply across all of them.
+ */
+export function installRequestLayer(
+  octokit: Octokit,
+  options: RequestLayerOptions = DEFAULT_REQUEST_LAYER_OPTIONS
+): RequestLayer {
+  let rateLimit: RateLimit | undefined;
+  let lowRateLimitWarned = false;
+  let activeRequests = 0;
+  const queue: (() => void)[] = [];
+  let nextMutationAt = 0;
+
+  const recordRateLimit = (headers: Headers | undefined) => {
+    const current = parseRateLimit(headers);
+    if (!current) {
+      return;
+    }
+    rateLimit = current;
+
+    const low = current.remaining < current.limit * 0.1;
+    if (low && !lowRateLimitWarned) {
+      logger.warn('GitHub API rate limit running low', {
+        limit: current.limit,
+        remaining: current.remaining,
+        resetAt: new Date(current.resetAt).toISOString(),
+        resource: current.resource,
+      });
+    }
+    lowRateLimitWarned = low;
+  };
+
+  const acquire = async () => {
+    if (activeRequests < options.maxConcurrentRequests) {
+      activeRequests++;
+      return;
+    }
+    // The releasing request hands its slot over directly
+    await new Promise<void>(resolve => queue.push(resolve));
+  };
+
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests--;
+    }
+  };
+
+  const waitForRateLimitReset = async () => {
+    if (!rateLimit || rateLimit.remaining > 0 || rateLimit.resetAt <= Date.now()) {
+      return;
+    }
+    const delay = rateLimit.resetAt - Date.now();
+    if (delay > options.maxRateLimitWaitMs) {
+      throw new Error(
+        `GitHub API rate limit exhausted until ${new Date(rateLimit.resetAt).toISOString()}`
+      );
+    }
+    logger.warn('GitHub API rate limit exhausted, waiting for reset', { delayMs: delay });
+    await wait(delay);
+  };
+
+  const spaceMutation = async (method: string) => {
+    if (method === 'GET' || method === 'HEAD') {
+      return;
+    }
+    const now = Date.now();
+    const sendAt = Math.max(now, nextMutationAt);
+    nextMutationAt = sendAt + options.mutationSpacingMs;
+    if (sendAt > now) {
+      await wait(sendAt - now);
+    }
+  };
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    const method = requestOptions.method.toUpperCase();
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimitReset();
+      await acquire();
+
+      let delay: number | undefined;
+      try {
+        await spaceMutation(method);
+        const response = await request(requestOptions);
+        recordRateLimit(response.headers);
+        return response;
+      } catch (error) {
+        recordRateLimit((error as { response?: { headers?: Headers } }).response?.headers);
+        delay = getRetryDelay(error, attempt, method, options);
+        if (delay === undefined) {
+          throw error;
+        }
+        logger.warn('GitHub API request failed, retrying', {
+          method,
+          url: requestOptions.url,
+          status: (error as { status?: number }).status,
+          attempt: attempt + 1,
+          delayMs: Math.round(delay),
+        });
+      } finally {
+        release();
+      }
+
+      await wait(delay);
+    }
+  });
+
+  return { getRateLimit: () => rateLimit };
+}
@@ -0,0 +1,258 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Clients must send this as a bearer token
+  authToken: string;
+  // Sessions without requests for this long are closed, in milliseconds
+  sessionIdleTimeoutMs: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastActivity: number;
+  // Requests still being answered, e.g. a long tool call or an open SSE stream
+  openRequests: number;
+}
+
+export const MCP_ENDPOINT = '/mcp';
+// Endpoints of the deprecated HTTP+SSE transport, for clients without streamable HTTP support
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+// JSON-RPC messages are small, larger bodies are rejected before they are buffered
+export const MAX_REQUEST_BODY_BYTES = 1024 * 1024;
+// How often sessions are checked for idleness
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Thrown by readJsonBody, answered with 413 Payload Too Large
+class RequestBodyTooLargeError extends Error {}
+
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) {
+    return false;
+  }
+  // Digests have the same length, so the comparison takes the same time whatever the token
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(authToken));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () =>
+    new RequestBodyTooLargeError(
+      `Request body is larger than the limit of ${MAX_REQUEST_BODY_BYTES} bytes`
+    );
+  if (Number(req.headers['content-length']) > MAX_REQUEST_BODY_BYTES) {
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_REQUEST_BODY_BYTES) {
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString('utf-8');
+  return body ? JSON.parse(body) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Serve MCP over HTTP, with the streamable HTTP transport on /mcp and the deprecated HTTP+SSE
+ * transport on /sse. Every client session is connected to its own MCP server from `createSession`,
+ * so sessions share the state behind it but not their requests or subscriptions. Sessions are
+ * closed once idle, as clients that go away without ending their session would otherwise leak it.
+ */
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createSession: () => Server
+): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+
+  const addSession = (id: string, transport: Session['transport']) => {
+    sessions.set(id, { transport, lastActivity: Date.now(), openRequests: 0 });
+  };
+
+  // The session stays active until the response to the request is finished
+  const trackRequest = (session: Session, res: ServerResponse) => {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const closeIdleSessions = async () => {
+    const idleSince = Date.now() - options.sessionIdleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests > 0 || session.lastActivity > idleSince) {
+        continue;
+      }
+      sessions.delete(id);
+      logger.info('Closing idle HTTP session', {
+        sessionId: id,
+        idleMs: Date.now() - session.lastActivity,
+      });
+      try {
+        await session.transport.close();
+      } catch (error) {
+        logger.warn('Failed to close idle HTTP session', {
+          sessionId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  const handleStreamableHttpRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (existing?.transport instanceof StreamableHTTPServerTransport) {
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId !== undefined) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        addSession(id, transport);
+        logger.info('HTTP session started', { sessionId: id, transport: 'streamable-http' });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        logger.info('HTTP session closed', { sessionId: transport.sessionId });
+      }
+    };
+    await createSession().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === SSE_ENDPOINT) {
+      const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+      addSession(transport.sessionId, transport);
+      // The session lives as long as its event stream
+      trackRequest(sessions.get(transport.sessionId) as Session, res);
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+        logger.info('HTTP session closed', { sessionId: transport.sessionId });
+      });
+      logger.info('HTTP session started', { sessionId: transport.sessionId, transport: 'sse' });
+      await createSession().connect(transport);
+      return;
+    }
+
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    trackRequest(session, res);
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    try {
+      if (!isAuthorized(req, options.authToken)) {
+        logger.warn('Rejected unauthorized HTTP request', {
+          method: req.method,
+          url: req.url,
+          remoteAddress: req.socket.remoteAddress,
+        });
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+        return;
+      }
+
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+      if (url.pathname === MCP_ENDPOINT) {
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        await handleStreamableHttpRequest(req, res, body);
+      } else if (
+        (req.method === 'GET' && url.pathname === SSE_ENDPOINT) ||
+        (req.method === 'POST' && url.pathname === SSE_MESSAGES_ENDPOINT)
+      ) {
+        await handleSseRequest(req, res, url);
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      if (error instanceof RequestBodyTooLargeError) {
+        logger.warn('Rejected oversized HTTP request', { method: req.method, url: req.url });
+        sendJsonRpcError(res, 413, -32600, error.message);
+        return;
+      }
+      logger.error(
+        'HTTP request failed',
+        error instanceof Error ? error : new Error(String(error)),
+        { method: req.method, url: req.url }
+      );
+      if (!res.headersSent) {
+        if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, -32700, 'Parse error');
+        } else {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  logger.info('MCP HTTP transport listening', {
+    host: options.host,
+    port: options.port,
+    endpoints: [MCP_ENDPOINT, SSE_ENDPOINT],
+  });
+
+  const sweepTimer = setInterval(
+    () => void closeIdleSessions(),
+    Math.min(SESSION_SWEEP_INTERVAL_MS, options.sessionIdleTimeoutMs)
+  );
+  sweepTimer.unref();
+  httpServer.on('close', () => clearInterval(sweepTimer));
+
+  return httpServer;
+}
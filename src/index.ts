@@ -2,97 +2,466 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { Octokit } from '@octokit/rest';
 import { z } from 'zod';
-import { validateWorkflow } from '@action-validator/core';
 import * as YAML from 'yaml';
 import * as crypto from 'crypto';
 import { logger } from './logger.js';
+import { startHttpTransport } from './http-transport.js';
+import {
+  DEFAULT_API_URL,
+  getOctokitOptions,
+  usesAppAuth,
+  verifyRepositoryAccess,
+  type AuthConfig,
+} from './auth.js';
+import {
+  formatJobLogUri,
+  formatRunUri,
+  parseWorkflowRunUri,
+  WORKFLOW_RUN_URI_SCHEME,
+} from './resources.js';
+import { describeJobProgress, type ProgressReporter } from './progress.js';
+import {
+  matchesRepositoryPatterns,
+  parseRepositoryPatterns,
+  type RepositoryTarget,
+} from './repositories.js';
+import { getValidationErrors, type WorkflowValidationError } from './validation.js';
+import {
+  applySourceEdits,
+  findAliasesInto,
+  parseWorkflowDocument,
+  removeNode,
+  replaceValue,
+} from './workflow-source.js';
+import { selectJobs, type JobSelection } from './jobs.js';
+import {
+  checkExtraFilePolicy,
+  checkWorkflowPolicy,
+  DEFAULT_ALLOWED_WRITE_PERMISSIONS,
+  DEFAULT_TRUSTED_ACTION_OWNERS,
+  type PolicyFinding,
+  type SecurityPolicy,
+} from './policy.js';
+import {
+  DEFAULT_MAX_ARTIFACT_BYTES,
+  DEFAULT_MAX_INLINE_FILE_BYTES,
+  matchesGlob,
+  toInlineFile,
+  writeArtifactFiles,
+} from './artifacts.js';
+import { normalizeRepositoryPath, readDirectoryFiles, type RepositoryFile } from './files.js';
+import { DEFAULT_MAX_LOG_BYTES, type LogOptions } from './logs.js';
+import { getEventConfig, validateWorkflowInputs, type WorkflowInputValue } from './inputs.js';
+import {
+  generateCallerWorkflow,
+  toCalledJobName,
+  toWorkflowCallConfig,
+} from './caller-workflow.js';
+import { filterMatrixCombinations, getJobMatrices } from './matrix.js';
+import { DEFAULT_TEST_REPORT_PATTERNS } from './test-reports.js';
+import { nextPollDelay, sleep, throwIfCancelled, type PollingOptions } from './polling.js';
+import { installRequestLayer, type RequestLayer } from './github-requests.js';
+import {
+  cancelBranchRuns,
+  cancelRunAndWait,
+  closePullRequest,
+  deleteBranch,
+  openPullRequest,
+} from './branches.js';
+import { cleanupStaleExecutions, EXECUTION_BRANCH_PREFIX } from './cleanup.js';
+import {
+  createExecutionRegistry,
+  toRunHandle,
+  WORKFLOW_TRIGGERS,
+  type ExecutionRegistry,
+  type WorkflowExecution,
+  type WorkflowTrigger,
+} from './executions.js';
+import {
+  applyLogOptions,
+  collectWorkflowRunResult,
+  downloadArtifactFiles,
+  groupMatrixJobs,
+  listWorkflowRunArtifacts,
+  listWorkflowRunJobs,
+  toArtifactResult,
+  toJobResult,
+  type TestReportOptions,
+  type WorkflowArtifact,
+  type WorkflowJob,
+  type WorkflowRunResult,
+} from './run-results.js';
+import {
+  createToolDispatcher,
+  defineTool,
+  type ToolContext,
+  type ToolDefinition,
+  type ToolResult,
+} from './tools.js';
+
+const MAX_KEEP_BRANCH_MINUTES = 24 * 60;
+// Margin on top of the longest an execution can keep its branch before the branch counts as stale
+const STALE_EXECUTION_MARGIN_MINUTES = 60;
+const RESOURCE_POLL_INTERVAL = 5000;
+
+// Timeouts and intervals in seconds, overridable through the environment
+const DEFAULT_DETECTION_TIMEOUT = 30;
+const DEFAULT_MAX_DETECTION_TIMEOUT = 600;
+const DEFAULT_EXECUTION_TIMEOUT = 600;
+const DEFAULT_MAX_EXECUTION_TIMEOUT = 6 * 60 * 60;
+const DEFAULT_POLL_INTERVAL = 10;
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_SESSION_IDLE_MINUTES = 30;
+
+const ConfigSchema = z
+  .object({
+    owner: z.string(),
+    repo: z.string(),
+    token: z.string(),
+    appId: z.string().regex(/^\d*$/, 'The GitHub App ID must be a number'),
+    appPrivateKey: z.string(),
+    appInstallationId: z.string().regex(/^\d*$/, 'The GitHub App installation ID must be a number'),
+    apiUrl: z.url(),
+    skipAccessCheck: z.boolean(),
+    allowedRepositories: z.array(
+      z.string().regex(/^[^/\s]+\/[^/\s]+$/, 'Allowed repositories must be owner/repo patterns')
+    ),
+    cleanupOnStartup: z.boolean(),
+    staleExecutionMinutes: z.number().int().min(1),
+    detectionTimeout: z.number().int().min(1),
+    maxDetectionTimeout: z.number().int().min(1),
+    executionTimeout: z.number().int().min(1),
+    maxExecutionTimeout: z.number().int().min(1),
+    pollInterval: z.number().int().min(1),
+    transport: z.enum(['stdio', 'http']),
+    httpHost: z.string().min(1),
+    httpPort: z.number().int().min(0).max(65535),
+    httpAuthToken: z.string(),
+    httpSessionIdleMinutes: z.number().int().min(1),
+    policy: z.object({
+      mode: z.enum(['off', 'warn', 'enforce']),
+      trustedActionOwners: z.array(z.string()),
+      allowedWritePermissions: z.array(z.string()),
+      allowedSecrets: z.array(z.string()).optional(),
+      allowedRunnerLabels: z.array(z.string()).optional(),
+    }),
+  })
+  .refine(config => config.token || (config.appId && config.appPrivateKey), {
+    message: 'Either a token or GitHub App credentials are required',
+  })
+  .refine(
+    config =>
+      (config.appId && config.appPrivateKey && config.appInstallationId) ||
+      (!config.appId && !config.appPrivateKey && !config.appInstallationId),
+    {
+      message: 'GitHub App authentication requires an app ID, a private key and an installation ID',
+    }
+  )
+  .refine(config => (config.owner && config.repo) || config.allowedRepositories.length > 0, {
+    message: 'A default repository or a list of allowed repositories is required',
+  })
+  .refine(
+    config =>
+      config.detectionTimeout <= config.maxDetectionTimeout &&
+      config.executionTimeout <= config.maxExecutionTimeout,
+    { message: 'Default timeouts cannot exceed their maximums' }
+  )
+  .refine(config => config.transport !== 'http' || config.httpAuthToken.length >= 16, {
+    message: 'The HTTP transport requires an auth token of at least 16 characters',
+  });
+
+const RepositoryArgsSchema = z.object({
+  owner: z.string().optional(),
+  repo: z.string().optional(),
+});
 
-const ConfigSchema = z.object({
-  owner: z.string(),
-  repo: z.string(),
-  token: z.string(),
+const PollingArgsSchema = z.object({
+  detection_timeout: z.number().int().min(1).optional(),
+  execution_timeout: z.number().int().min(1).optional(),
+  poll_interval: z.number().int().min(1).optional(),
 });
 
-const ExecuteWorkflowArgsSchema = z.object({
+const LogOptionsArgsSchema = z.object({
+  max_log_bytes: z.number().int().min(0).optional(),
+  log_tail_lines: z.number().int().min(0).optional(),
+  failed_jobs_logs_only: z.boolean().optional(),
+  failed_steps_logs_only: z.boolean().optional(),
+});
+
+const WorkflowSourceArgsSchema = z.object({
   workflow_yaml: z.string().optional(),
   workflow_path: z.string().optional(),
+});
+
+const TestReportArgsSchema = z.object({
+  test_report_artifact: z.string().optional(),
+  test_report_files: z.array(z.string()).optional(),
+});
+
+const ExecuteWorkflowArgsSchema = LogOptionsArgsSchema.extend({
+  ...TestReportArgsSchema.shape,
+  ...PollingArgsSchema.shape,
+  ...RepositoryArgsSchema.shape,
+  ...WorkflowSourceArgsSchema.shape,
+  dry_run: z.boolean().optional(),
   branch_name: z.string().optional(),
+  async: z.boolean().optional(),
+  keep_branch_minutes: z.number().int().min(0).max(MAX_KEEP_BRANCH_MINUTES).optional(),
+  inputs: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  base_ref: z.string().optional(),
+  extra_files: z.record(z.string(), z.string()).optional(),
+  extra_files_directory: z.string().optional(),
+  simulate_event: z
+    .object({
+      event: z.string(),
+      base_branch: z.string().optional(),
+    })
+    .optional(),
+  matrix_filter: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  jobs: z.array(z.string()).min(1).optional(),
+});
+
+const WorkflowRunArgsSchema = RepositoryArgsSchema.extend({
+  run_id: z.number().int(),
+});
+
+const WorkflowRunResultArgsSchema = LogOptionsArgsSchema.extend({
+  ...WorkflowRunArgsSchema.shape,
+  ...TestReportArgsSchema.shape,
+});
+
+const CleanupStaleExecutionsArgsSchema = RepositoryArgsSchema.extend({
+  max_age_minutes: z.number().int().min(1).optional(),
+  delete_runs: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
 });
 
-interface Config {
+const RerunWorkflowArgsSchema = WorkflowRunResultArgsSchema.extend({
+  ...PollingArgsSchema.shape,
+  failed_jobs_only: z.boolean().optional(),
+  async: z.boolean().optional(),
+  keep_branch_minutes: z.number().int().min(0).max(MAX_KEEP_BRANCH_MINUTES).optional(),
+});
+
+const REPOSITORY_INPUT_PROPERTIES = {
+  owner: {
+    type: 'string',
+    description:
+      'Owner of the repository to use (optional, defaults to the GITHUB_OWNER the server was started with)',
+  },
+  repo: {
+    type: 'string',
+    description:
+      'Name of the repository to use (optional, defaults to the GITHUB_REPO the server was started with)',
+  },
+};
+
+const DownloadArtifactArgsSchema = RepositoryArgsSchema.extend({
+  run_id: z.number().int().optional(),
+  artifact_id: z.number().int().optional(),
+  artifact_name: z.string().optional(),
+  destination_directory: z.string().optional(),
+  inline_files: z.array(z.string()).optional(),
+  max_inline_bytes: z.number().int().min(0).optional(),
+  max_artifact_bytes: z.number().int().min(1).optional(),
+});
+
+const TEST_REPORT_INPUT_PROPERTIES = {
+  test_report_artifact: {
+    type: 'string',
+    description:
+      'Name of an artifact holding JUnit XML or TRX test reports to parse into a test summary (optional)',
+  },
+  test_report_files: {
+    type: 'array',
+    items: { type: 'string' },
+    description: `Glob patterns of the test report files in the artifact (optional, defaults to ${DEFAULT_TEST_REPORT_PATTERNS.join(', ')})`,
+  },
+};
+
+const KEEP_BRANCH_INPUT_PROPERTIES = {
+  keep_branch_minutes: {
+    type: 'number',
+    description: `Keep the temporary branch for this many minutes after the run finishes so it can be re-run with rerun_workflow_run (optional, defaults to 0, at most ${MAX_KEEP_BRANCH_MINUTES})`,
+  },
+};
+
+const LOG_OPTIONS_INPUT_PROPERTIES = {
+  max_log_bytes: {
+    type: 'number',
+    description: `Maximum bytes of log output per job, keeping the end of the log (optional, defaults to ${DEFAULT_MAX_LOG_BYTES}, 0 for no limit)`,
+  },
+  log_tail_lines: {
+    type: 'number',
+    description: 'Only return the last N lines of each job log (optional, 0 for all lines)',
+  },
+  failed_jobs_logs_only: {
+    type: 'boolean',
+    description: 'Only return logs for jobs that failed (optional, defaults to false)',
+  },
+  failed_steps_logs_only: {
+    type: 'boolean',
+    description:
+      'Only return the log sections of the steps that failed, omitting logs of jobs that did not fail (optional, defaults to false)',
+  },
+};
+
+interface Config extends AuthConfig {
+  // The default repository, used when a tool call does not name one
   owner: string;
   repo: string;
-  token: string;
+  // owner/repo patterns (with * wildcards) that tool calls may target besides the default
+  allowedRepositories: string[];
+  // Don't check access to the repositories at startup, e.g. in environments without GitHub access
+  skipAccessCheck: boolean;
+  // Sweep stale execution branches when the server starts
+  cleanupOnStartup: boolean;
+  staleExecutionMinutes: number;
+  // Defaults and maximums for the polling tool arguments, in seconds
+  detectionTimeout: number;
+  maxDetectionTimeout: number;
+  executionTimeout: number;
+  maxExecutionTimeout: number;
+  pollInterval: number;
+  // How clients connect: over stdio, or over HTTP to share one server between clients
+  transport: 'stdio' | 'http';
+  httpHost: string;
+  httpPort: number;
+  httpAuthToken: string;
+  httpSessionIdleMinutes: number;
+  // Checks run on submitted workflows before anything is pushed
+  policy: SecurityPolicy;
+}
+
+interface WorkflowRunResourceContent {
+  mimeType: string;
+  text: string;
+  // Whether the run or job has completed, so the content will not change any more
+  completed: boolean;
+}
+
+interface ResourceSubscription {
+  lastText?: string;
+  timer?: NodeJS.Timeout;
+}
+
+// A connected client. Over HTTP each session has its own MCP server, and all of them share the
+// executions and GitHub client of the GitHubActionsWorkflowServer
+interface ClientSession {
+  server: Server;
+  // Resource subscriptions of this client, by URI
+  subscriptions: Map<string, ResourceSubscription>;
 }
 
 class GitHubActionsWorkflowServer {
-  private server: Server;
   private octokit: Octokit;
+  private requests: RequestLayer;
   private config: Config;
+  private executions: ExecutionRegistry;
+  // The tools by name, with the schema their arguments are parsed with
+  private tools: Record<string, ToolDefinition> = {
+    execute_github_actions_workflow: defineTool(ExecuteWorkflowArgsSchema, (args, context) =>
+      this.executeWorkflow(args, context)
+    ),
+    validate_github_actions_workflow: defineTool(WorkflowSourceArgsSchema, args =>
+      this.validateWorkflowTool(args)
+    ),
+    get_workflow_run_status: defineTool(WorkflowRunArgsSchema, args =>
+      this.getWorkflowRunStatus(args)
+    ),
+    get_workflow_run_result: defineTool(WorkflowRunResultArgsSchema, args =>
+      this.getWorkflowRunResult(args)
+    ),
+    download_workflow_artifact: defineTool(DownloadArtifactArgsSchema, args =>
+      this.downloadArtifactTool(args)
+    ),
+    rerun_workflow_run: defineTool(RerunWorkflowArgsSchema, (args, context) =>
+      this.rerunWorkflowRun(args, context)
+    ),
+    cleanup_stale_executions: defineTool(CleanupStaleExecutionsArgsSchema, args =>
+      this.cleanupStaleExecutionsTool(args)
+    ),
+    cancel_workflow_run: defineTool(WorkflowRunArgsSchema, args => this.cancelWorkflowRun(args)),
+  };
 
   constructor(config: Config) {
     this.config = config;
     logger.info('Initializing GitHub Actions Workflow Server', {
       owner: config.owner,
       repo: config.repo,
-      tokenLength: config.token.length,
+      allowedRepositories: config.allowedRepositories,
+      authentication: usesAppAuth(config) ? 'github-app' : 'token',
+      apiUrl: config.apiUrl,
     });
 
-    this.octokit = new Octokit({ auth: config.token });
-    this.server = new Server(
-      {
-        name: 'execute-github-actions-workflow',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
+    this.octokit = new Octokit(getOctokitOptions(config));
+    // Retries, throttling and rate limit tracking for every GitHub API call
+    this.requests = installRequestLayer(this.octokit);
+    this.executions = createExecutionRegistry(this.octokit);
+    logger.info('Server initialized successfully');
+  }
+
+  /**
+   * Create the MCP server for a new client session.
+   */
+  private createSession(): Server {
+    const session: ClientSession = {
+      server: new Server(
+        {
+          name: 'execute-github-actions-workflow',
+          version: '1.0.0',
         },
+        {
+          capabilities: {
+            tools: {},
+            resources: { subscribe: true },
+          },
+        }
+      ),
+      subscriptions: new Map(),
+    };
+
+    this.setupHandlers(session.server);
+    this.setupResourceHandlers(session);
+    session.server.onclose = () => {
+      for (const uri of [...session.subscriptions.keys()]) {
+        this.unsubscribe(session, uri);
       }
-    );
-
-    this.setupHandlers();
-    logger.info('Server initialized successfully');
+    };
+    return session.server;
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     logger.debug('Setting up request handlers');
 
-    this.server.setRequestHandler(CallToolRequestSchema, async request => {
-      const startTime = Date.now();
-      logger.logRequest(request.params.name, request.params.arguments);
-
-      try {
-        if (request.params.name === 'execute_github_actions_workflow') {
-          const result = await this.executeWorkflow(request.params.arguments);
-          const duration = Date.now() - startTime;
-          logger.logResponse(request.params.name, duration, true);
-          return result;
-        }
-
-        const error = new Error(`Unknown tool: ${request.params.name}`);
-        logger.error('Unknown tool requested', error, { toolName: request.params.name });
-        throw error;
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        logger.logResponse(request.params.name, duration, false);
-        logger.error('Request failed', error instanceof Error ? error : new Error(String(error)));
-        throw error;
-      }
-    });
+    server.setRequestHandler(
+      CallToolRequestSchema,
+      createToolDispatcher(this.tools, this.requests)
+    );
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'execute_github_actions_workflow',
           description:
-            "Validate, mutate trigger to 'push', re-validate, and execute a GitHub Actions workflow by pushing it to a new branch and monitoring the run",
+            "Validate, mutate trigger to 'push' (or run a workflow_dispatch or workflow_call workflow with the given inputs through a generated caller), re-validate, and execute a GitHub Actions workflow by pushing it to a new branch and monitoring the run. Set async to true to get a run handle back immediately and follow up with get_workflow_run_status / get_workflow_run_result",
           inputSchema: {
             type: 'object',
             properties: {
+              ...REPOSITORY_INPUT_PROPERTIES,
               workflow_yaml: {
                 type: 'string',
                 description:
@@ -101,19 +470,449 @@ class GitHubActionsWorkflowServer {
               workflow_path: {
                 type: 'string',
                 description:
-                  'Path to an existing workflow file (required if workflow_yaml is not provided)',
+                  'Path to an existing workflow file on the server (required if workflow_yaml is not provided, not available over HTTP)',
               },
               branch_name: {
                 type: 'string',
                 description:
                   'Custom branch name for the workflow execution (optional, defaults to auto-generated)',
               },
+              async: {
+                type: 'boolean',
+                description:
+                  'Return a run handle as soon as the workflow run is detected instead of waiting for it to complete (optional, defaults to false)',
+              },
+              ...KEEP_BRANCH_INPUT_PROPERTIES,
+              ...this.pollingInputProperties(),
+              base_ref: {
+                type: 'string',
+                description:
+                  'Branch, tag or commit SHA to base the temporary branch on (optional, defaults to the default branch). The resolved SHA is echoed in the response',
+              },
+              extra_files: {
+                type: 'object',
+                description:
+                  'Extra files to commit alongside the workflow, as a map of repository path to file content, e.g. scripts, composite actions or config files the workflow uses (optional)',
+                additionalProperties: { type: 'string' },
+              },
+              extra_files_directory: {
+                type: 'string',
+                description:
+                  'Path to a local directory on the server whose files are committed alongside the workflow, relative to the repository root (optional, not available over HTTP)',
+              },
+              simulate_event: {
+                type: 'object',
+                description:
+                  'Run the workflow on a specific event instead of the default trigger (optional). pull_request opens a temporary draft pull request from the execution branch',
+                properties: {
+                  event: {
+                    type: 'string',
+                    enum: [...WORKFLOW_TRIGGERS],
+                    description: 'The event to fire',
+                  },
+                  base_branch: {
+                    type: 'string',
+                    description:
+                      'Base branch for the pull_request event (optional, defaults to the default branch)',
+                  },
+                },
+                required: ['event'],
+              },
+              jobs: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'IDs of the jobs to run (optional, defaults to all jobs). Every other job is removed, except the jobs the selected ones need, directly or transitively',
+              },
+              matrix_filter: {
+                type: 'object',
+                description:
+                  'Only run the matrix combinations with these values, e.g. {"os": "ubuntu-latest", "node": 20}, to re-run a single failing leg (optional). Applies to every job whose matrix has any of the keys',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+              },
+              inputs: {
+                type: 'object',
+                description:
+                  'Inputs for a workflow that declares a workflow_dispatch or workflow_call trigger, checked against the declared input types, required flags and choice options (optional)',
+                additionalProperties: { type: ['string', 'number', 'boolean'] },
+              },
+              ...TEST_REPORT_INPUT_PROPERTIES,
+              dry_run: {
+                type: 'boolean',
+                description:
+                  'Validate and mutate the workflow and return the mutated YAML, branch name, file path and planned GitHub API calls without making any of them (optional, defaults to false)',
+              },
+              ...LOG_OPTIONS_INPUT_PROPERTIES,
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'validate_github_actions_workflow',
+          description:
+            'Validate a GitHub Actions workflow locally with action-validator and check it against the security policy, without touching GitHub. Returns structured errors and policy findings with their source locations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              workflow_yaml: {
+                type: 'string',
+                description:
+                  'The YAML content of the workflow file (required if workflow_path is not provided)',
+              },
+              workflow_path: {
+                type: 'string',
+                description:
+                  'Path to an existing workflow file on the server (required if workflow_yaml is not provided, not available over HTTP)',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'get_workflow_run_status',
+          description:
+            'Get the current status of a workflow run started by execute_github_actions_workflow, including the status of each job',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              run_id: {
+                type: 'number',
+                description: 'The workflow run ID from the run handle',
+              },
+              ...REPOSITORY_INPUT_PROPERTIES,
+            },
+            required: ['run_id'],
+          },
+        },
+        {
+          name: 'get_workflow_run_result',
+          description:
+            'Get the result and logs of a completed workflow run started by execute_github_actions_workflow. Returns the current status if the run is still in progress. Can also be used to fetch logs that were truncated in an earlier result',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              run_id: {
+                type: 'number',
+                description: 'The workflow run ID from the run handle',
+              },
+              ...REPOSITORY_INPUT_PROPERTIES,
+              ...LOG_OPTIONS_INPUT_PROPERTIES,
+              ...TEST_REPORT_INPUT_PROPERTIES,
+            },
+            required: ['run_id'],
+          },
+        },
+        {
+          name: 'download_workflow_artifact',
+          description:
+            'Download an artifact of a workflow run, extract it into a local directory and/or return selected text files inline',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              run_id: {
+                type: 'number',
+                description: 'The workflow run ID (required with artifact_name)',
+              },
+              artifact_name: {
+                type: 'string',
+                description:
+                  'Name of the artifact in the run (required if artifact_id is not provided)',
+              },
+              artifact_id: {
+                type: 'number',
+                description:
+                  'ID of the artifact (required if run_id and artifact_name are not provided)',
+              },
+              destination_directory: {
+                type: 'string',
+                description:
+                  'Local directory on the server to extract the artifact into (optional, not available over HTTP)',
+              },
+              inline_files: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Glob patterns of files in the artifact to return inline, e.g. ["**/*.xml", "coverage/summary.txt"] (optional)',
+              },
+              max_inline_bytes: {
+                type: 'number',
+                description: `Maximum bytes returned per inline file (optional, defaults to ${DEFAULT_MAX_INLINE_FILE_BYTES}, 0 for no limit)`,
+              },
+              max_artifact_bytes: {
+                type: 'number',
+                description: `Maximum size of the artifact, compressed and extracted (optional, defaults to ${DEFAULT_MAX_ARTIFACT_BYTES})`,
+              },
+              ...REPOSITORY_INPUT_PROPERTIES,
             },
             required: [],
           },
         },
+        {
+          name: 'rerun_workflow_run',
+          description:
+            'Re-run a completed workflow run, by default only its failed jobs, without pushing the workflow again. Waits for the new attempt and returns its result. Runs started by execute_github_actions_workflow need keep_branch_minutes so their temporary branch still exists',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              run_id: {
+                type: 'number',
+                description: 'The workflow run ID from an earlier result or run handle',
+              },
+              failed_jobs_only: {
+                type: 'boolean',
+                description:
+                  'Only re-run the failed jobs and the jobs that depend on them (optional, defaults to true)',
+              },
+              async: {
+                type: 'boolean',
+                description:
+                  'Return a run handle as soon as the new attempt has started instead of waiting for it to complete (optional, defaults to false)',
+              },
+              ...KEEP_BRANCH_INPUT_PROPERTIES,
+              ...this.pollingInputProperties(),
+              ...REPOSITORY_INPUT_PROPERTIES,
+              ...LOG_OPTIONS_INPUT_PROPERTIES,
+              ...TEST_REPORT_INPUT_PROPERTIES,
+            },
+            required: ['run_id'],
+          },
+        },
+        {
+          name: 'cancel_workflow_run',
+          description:
+            'Cancel a workflow run started by execute_github_actions_workflow and clean up its temporary branch',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              run_id: {
+                type: 'number',
+                description: 'The workflow run ID from the run handle',
+              },
+            },
+            required: ['run_id'],
+          },
+        },
+        {
+          name: 'cleanup_stale_executions',
+          description: `Clean up temporary branches left behind by executions that never finished, e.g. because the server was killed. Finds ${EXECUTION_BRANCH_PREFIX}* branches older than the given age whose runs have all completed, and deletes the branches`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...REPOSITORY_INPUT_PROPERTIES,
+              max_age_minutes: {
+                type: 'number',
+                description: `Only clean up branches older than this many minutes (optional, defaults to ${this.config.staleExecutionMinutes})`,
+              },
+              delete_runs: {
+                type: 'boolean',
+                description:
+                  'Also delete the workflow runs of the stale branches from the Actions history (optional, defaults to false)',
+              },
+              dry_run: {
+                type: 'boolean',
+                description:
+                  'List the stale branches and their runs without changing anything (optional, defaults to false)',
+              },
+            },
+          },
+        },
+      ],
+    }));
+  }
+
+  private pollingInputProperties() {
+    return {
+      detection_timeout: {
+        type: 'number',
+        description: `Seconds to wait for the workflow run to appear, e.g. while runners are busy (optional, defaults to ${this.config.detectionTimeout}, at most ${this.config.maxDetectionTimeout})`,
+      },
+      execution_timeout: {
+        type: 'number',
+        description: `Seconds to wait for the run to complete. When it runs out the run is cancelled and partial results are returned (optional, defaults to ${this.config.executionTimeout}, at most ${this.config.maxExecutionTimeout})`,
+      },
+      poll_interval: {
+        type: 'number',
+        description: `Base number of seconds between status checks. Polling slows down while the run is queued, speeds up when it is nearly done and backs off when the GitHub rate limit runs low (optional, defaults to ${this.config.pollInterval})`,
+      },
+    };
+  }
+
+  private setupResourceHandlers(session: ClientSession) {
+    logger.debug('Setting up resource handlers');
+
+    session.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.executions.list().map(execution => ({
+        uri: formatRunUri(execution.target, execution.runId),
+        name: `Workflow run ${execution.runId} (${execution.target.owner}/${execution.target.repo})`,
+        description: `Status and jobs of the workflow run on ${execution.branchName}`,
+        mimeType: 'application/json',
+      })),
+    }));
+
+    session.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: `${WORKFLOW_RUN_URI_SCHEME}://{owner}/{repo}/{run_id}`,
+          name: 'Workflow run',
+          description: 'Status of a workflow run and its jobs, with the URI of each job log',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${WORKFLOW_RUN_URI_SCHEME}://{owner}/{repo}/{run_id}/jobs/{job_id}/log`,
+          name: 'Workflow job log',
+          description:
+            'Log of a workflow job. Subscribe to be notified as the log grows while the job runs',
+          mimeType: 'text/plain',
+        },
       ],
     }));
+
+    session.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+      logger.debug('Reading resource', { uri });
+      const content = await this.readWorkflowRunResource(uri);
+      return { contents: [{ uri, mimeType: content.mimeType, text: content.text }] };
+    });
+
+    session.server.setRequestHandler(SubscribeRequestSchema, async request => {
+      const { uri } = request.params;
+      // Fail early for URIs that cannot be read
+      const content = await this.readWorkflowRunResource(uri);
+
+      this.unsubscribe(session, uri);
+      const subscription: ResourceSubscription = { lastText: content.text };
+      session.subscriptions.set(uri, subscription);
+      logger.info('Resource subscribed', { uri, completed: content.completed });
+
+      if (!content.completed) {
+        this.scheduleResourcePoll(session, uri, subscription);
+      }
+      return {};
+    });
+
+    session.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      this.unsubscribe(session, request.params.uri);
+      logger.info('Resource unsubscribed', { uri: request.params.uri });
+      return {};
+    });
+  }
+
+  private async readWorkflowRunResource(uri: string): Promise<WorkflowRunResourceContent> {
+    const resource = parseWorkflowRunUri(uri);
+    if (!resource) {
+      const error = new Error(
+        `Unknown resource URI: ${uri}. Expected ${WORKFLOW_RUN_URI_SCHEME}://<owner>/<repo>/<run_id>[/jobs/<job_id>/log]`
+      );
+      logger.error('Invalid resource URI', error, { uri });
+      throw error;
+    }
+
+    const target = this.resolveTarget(resource.target);
+
+    if (resource.jobId === undefined) {
+      logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, {
+        runId: resource.runId,
+      });
+      const { data: run } = await this.octokit.actions.getWorkflowRun({
+        owner: target.owner,
+        repo: target.repo,
+        run_id: resource.runId,
+      });
+      const jobs = await listWorkflowRunJobs(this.octokit, target, resource.runId);
+
+      return {
+        mimeType: 'application/json',
+        text: JSON.stringify(
+          {
+            run_id: run.id,
+            status: run.status,
+            conclusion: run.conclusion,
+            html_url: run.html_url,
+            jobs: jobs.map(job => ({
+              ...toJobResult(job),
+              log_uri: formatJobLogUri(target, run.id, job.id),
+            })),
+          },
+          null,
+          2
+        ),
+        completed: run.status === 'completed',
+      };
+    }
+
+    logger.logGitHubAPI('get-job-for-workflow-run', target.owner, target.repo, {
+      jobId: resource.jobId,
+    });
+    const { data: job } = await this.octokit.actions.getJobForWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      job_id: resource.jobId,
+    });
+
+    try {
+      logger.logGitHubAPI('download-job-logs', target.owner, target.repo, {
+        jobId: resource.jobId,
+      });
+      const { data: logData } = await this.octokit.actions.downloadJobLogsForWorkflowRun({
+        owner: target.owner,
+        repo: target.repo,
+        job_id: resource.jobId,
+      });
+      return {
+        mimeType: 'text/plain',
+        text: typeof logData === 'string' ? logData : String(logData),
+        completed: job.status === 'completed',
+      };
+    } catch (error) {
+      // GitHub only serves the log once the job has started writing one
+      if ((error as { status?: number }).status === 404 && job.status !== 'completed') {
+        return {
+          mimeType: 'text/plain',
+          text: `[The log of job '${job.name}' is not available yet (status: ${job.status})]`,
+          completed: false,
+        };
+      }
+      throw error;
+    }
+  }
+
+  private scheduleResourcePoll(
+    session: ClientSession,
+    uri: string,
+    subscription: ResourceSubscription
+  ): void {
+    subscription.timer = setTimeout(async () => {
+      try {
+        const content = await this.readWorkflowRunResource(uri);
+        // The subscription may have been removed while reading
+        if (session.subscriptions.get(uri) !== subscription) {
+          return;
+        }
+        if (content.text !== subscription.lastText) {
+          subscription.lastText = content.text;
+          await session.server.sendResourceUpdated({ uri });
+          logger.debug('Resource updated', { uri, length: content.text.length });
+        }
+        if (content.completed) {
+          logger.info('Resource completed, polling stopped', { uri });
+          return;
+        }
+      } catch (error) {
+        logger.warn('Failed to poll subscribed resource', {
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      if (session.subscriptions.get(uri) === subscription) {
+        this.scheduleResourcePoll(session, uri, subscription);
+      }
+    }, RESOURCE_POLL_INTERVAL);
+    subscription.timer.unref();
+  }
+
+  private unsubscribe(session: ClientSession, uri: string): void {
+    clearTimeout(session.subscriptions.get(uri)?.timer);
+    session.subscriptions.delete(uri);
   }
 
   private async validateWorkflowYaml(
@@ -125,24 +924,21 @@ class GitHubActionsWorkflowServer {
     });
 
     try {
-      const state = validateWorkflow(workflowContent);
-
-      if (state.errors.length > 0) {
-        logger.logValidation(type, false, state.errors.length);
-        const errorMessages = state.errors
-          .map(error => `${error.title}: ${error.detail || error.code}`)
+      const errors = this.getWorkflowValidationErrors(workflowContent, type);
+
+      if (errors.length > 0) {
+        const errorMessages = errors
+          .map(
+            error =>
+              `${error.title}: ${error.detail || error.code}` +
+              (error.location
+                ? ` (line ${error.location.line}, column ${error.location.column})`
+                : '')
+          )
           .join('\n');
 
-        logger.error(`Workflow validation failed (${type})`, undefined, {
-          errorCount: state.errors.length,
-          errors: state.errors,
-        });
-
         throw new Error(`Workflow validation failed:\n${errorMessages}`);
       }
-
-      logger.logValidation(type, true, 0);
-      logger.debug(`Workflow validation passed (${type})`);
     } catch (error) {
       if (error instanceof Error && error.message.includes('Workflow validation failed')) {
         throw error;
@@ -156,249 +952,1348 @@ class GitHubActionsWorkflowServer {
     }
   }
 
-  private mutateWorkflowTrigger(workflowContent: string): string {
-    logger.debug('Starting workflow trigger mutation');
+  private getWorkflowValidationErrors(
+    workflowContent: string,
+    type: 'original' | 'mutated'
+  ): WorkflowValidationError[] {
+    // Mutations keep every line of the workflow in place, so locations in the mutated workflow are
+    // lines of the workflow the user wrote
+    const errors = getValidationErrors(workflowContent);
+
+    if (errors.length > 0) {
+      logger.logValidation(type, false, errors.length);
+      logger.error(`Workflow validation failed (${type})`, undefined, {
+        errorCount: errors.length,
+        errors,
+      });
+    } else {
+      logger.logValidation(type, true, 0);
+      logger.debug(`Workflow validation passed (${type})`);
+    }
 
-    try {
-      const workflow = YAML.parse(workflowContent);
+    return errors;
+  }
+
+  private checkSecurityPolicy(
+    workflowContent: string,
+    extraFiles: RepositoryFile[] = []
+  ): PolicyFinding[] {
+    const findings = [
+      ...checkWorkflowPolicy(workflowContent, this.config.policy),
+      ...extraFiles.flatMap(file =>
+        checkExtraFilePolicy(
+          file.path,
+          file.encoding === 'base64'
+            ? Buffer.from(file.content, 'base64').toString('utf-8')
+            : file.content,
+          this.config.policy
+        )
+      ),
+    ];
+
+    if (findings.length > 0) {
+      logger.warn('Workflow has security policy findings', {
+        mode: this.config.policy.mode,
+        findings: findings.map(finding => ({
+          rule: finding.rule,
+          severity: finding.severity,
+          file: finding.file,
+          path: finding.path,
+        })),
+      });
+    } else {
+      logger.debug('Workflow passed the security policy', { mode: this.config.policy.mode });
+    }
+
+    return findings;
+  }
+
+  private isRejectedByPolicy(findings: PolicyFinding[]): boolean {
+    return (
+      this.config.policy.mode === 'enforce' &&
+      findings.some(finding => finding.severity === 'error')
+    );
+  }
+
+  private resolveTrigger(
+    workflowContent: string,
+    simulateEvent: string | undefined,
+    providedInputs: Record<string, WorkflowInputValue> | undefined
+  ): {
+    trigger: WorkflowTrigger;
+    // Inputs passed by the generated caller workflow, which runs workflow_dispatch workflows too
+    callInputs: Record<string, WorkflowInputValue> | null;
+  } {
+    if (simulateEvent && !(WORKFLOW_TRIGGERS as readonly string[]).includes(simulateEvent)) {
+      const error = new Error(
+        `Cannot simulate the ${simulateEvent} event: only ${WORKFLOW_TRIGGERS.join(', ')} can be fired from a temporary branch, because GitHub runs workflows for other events from the default branch`
+      );
+      logger.error('Invalid arguments: unsupported simulated event', error, { simulateEvent });
+      throw error;
+    }
+
+    const workflow = YAML.parse(workflowContent);
+    const dispatchConfig = getEventConfig(workflow?.on, 'workflow_dispatch');
+    const callConfig = getEventConfig(workflow?.on, 'workflow_call');
+    const trigger: WorkflowTrigger =
+      (simulateEvent as WorkflowTrigger | undefined) ??
+      (dispatchConfig ? 'workflow_dispatch' : callConfig ? 'workflow_call' : 'push');
+
+    if (trigger !== 'workflow_dispatch' && trigger !== 'workflow_call') {
+      if (providedInputs && Object.keys(providedInputs).length > 0) {
+        const error = new Error(
+          simulateEvent
+            ? `Inputs can only be provided for workflow_dispatch and workflow_call runs, but the ${simulateEvent} event is being simulated`
+            : 'Inputs were provided but the workflow does not declare a workflow_dispatch or workflow_call trigger'
+        );
+        logger.error('Invalid arguments: inputs without workflow_dispatch or workflow_call', error);
+        throw error;
+      }
+      return { trigger, callInputs: null };
+    }
+
+    try {
+      const inputs = validateWorkflowInputs(
+        trigger,
+        (trigger === 'workflow_dispatch' ? dispatchConfig : callConfig) ?? {},
+        providedInputs ?? {}
+      );
+      logger.info(`Workflow ${trigger} inputs validated`, {
+        inputNames: Object.keys(inputs),
+      });
+      return { trigger, callInputs: inputs };
+    } catch (error) {
+      logger.error(
+        `Workflow ${trigger} input validation failed`,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw error;
+    }
+  }
+
+  private mutateWorkflowTrigger(workflowContent: string, trigger: WorkflowTrigger): string {
+    logger.debug('Starting workflow trigger mutation');
+
+    try {
+      let document;
+      try {
+        document = parseWorkflowDocument(workflowContent);
+      } catch (error) {
+        logger.error(
+          'Workflow mutation failed: invalid YAML structure',
+          error instanceof Error ? error : new Error(String(error))
+        );
+        throw error;
+      }
+
+      const originalTrigger = document.toJS().on;
+      let newTrigger: unknown;
+      // Set the trigger to push to ensure the workflow runs when we push to the branch. For other
+      // events keep only that trigger so exactly one run is started, by our pull request or caller
+      // workflow. workflow_dispatch workflows are called with the same inputs, as GitHub cannot
+      // dispatch a workflow that has only been pushed to a temporary branch
+      switch (trigger) {
+        case 'push':
+          newTrigger = 'push';
+          break;
+        case 'workflow_dispatch':
+          newTrigger = {
+            workflow_call: toWorkflowCallConfig(
+              getEventConfig(originalTrigger, 'workflow_dispatch') ?? {}
+            ),
+          };
+          if (/\bgithub\s*\.\s*event\s*\.\s*inputs\b/.test(workflowContent)) {
+            logger.warn(
+              'The workflow reads github.event.inputs, which is empty when it is run through a caller workflow. Use the inputs context instead'
+            );
+          }
+          break;
+        case 'pull_request':
+          newTrigger = { pull_request: {} };
+          break;
+        case 'workflow_call':
+          newTrigger = {
+            workflow_call: getEventConfig(originalTrigger, 'workflow_call') ?? {},
+          };
+          break;
+      }
+
+      // Only the `on:` value is rewritten, so comments, formatting and line numbers are preserved
+      const mutatedContent = applySourceEdits(workflowContent, [
+        replaceValue(workflowContent, document, ['on'], newTrigger),
+      ]);
+
+      logger.info('Workflow trigger mutated successfully', {
+        originalTrigger: JSON.stringify(originalTrigger),
+        newTrigger: trigger,
+        originalLength: workflowContent.length,
+        mutatedLength: mutatedContent.length,
+      });
+
+      return mutatedContent;
+    } catch (error) {
+      logger.error(
+        'Failed to mutate workflow trigger',
+        error instanceof Error ? error : new Error(String(error))
+      );
+      throw new Error(`Failed to mutate workflow trigger: ${error}`);
+    }
+  }
+
+  private selectWorkflowJobs(
+    workflowContent: string,
+    jobIds: string[]
+  ): { content: string; selection: JobSelection } {
+    const document = parseWorkflowDocument(workflowContent);
+    const jobsNode = document.get('jobs', true);
+    const workflowJobs = document.toJS().jobs;
+
+    let selection: JobSelection;
+    try {
+      if (!YAML.isMap(jobsNode) || typeof workflowJobs !== 'object' || workflowJobs === null) {
+        throw new Error('The workflow has no jobs to select from');
+      }
+      selection = selectJobs(workflowJobs, jobIds);
+    } catch (error) {
+      logger.error(
+        'Invalid arguments: job selection failed',
+        error instanceof Error ? error : new Error(String(error)),
+        { jobs: jobIds }
+      );
+      throw error;
+    }
+
+    for (const warning of selection.warnings) {
+      logger.warn('Job selection warning', { warning });
+    }
+    logger.info('Selected workflow jobs', {
+      selected: selection.selected,
+      dependencies: selection.dependencies,
+      removed: selection.removed,
+    });
+
+    if (selection.removed.length === 0) {
+      return { content: workflowContent, selection };
+    }
+
+    const danglingAliases = findAliasesInto(
+      document,
+      selection.removed.map(jobId => ['jobs', jobId])
+    );
+    if (danglingAliases.length > 0) {
+      const error = new Error(
+        `Cannot remove jobs ${selection.removed.join(', ')}: the kept jobs use the aliases ${danglingAliases.map(alias => `*${alias}`).join(', ')} of anchors defined in them. Select those jobs too, or move the anchors to a job that is kept`
+      );
+      logger.error('Invalid arguments: job selection would leave unresolved aliases', error, {
+        jobs: jobIds,
+        aliases: danglingAliases,
+      });
+      throw error;
+    }
+
+    // Removed jobs are blanked line by line. A flow mapping ("jobs: { ... }") is rewritten instead
+    const edits = jobsNode.flow
+      ? [
+          replaceValue(
+            workflowContent,
+            document,
+            ['jobs'],
+            Object.fromEntries(
+              Object.entries(workflowJobs).filter(([jobId]) => !selection.removed.includes(jobId))
+            )
+          ),
+        ]
+      : selection.removed.map(jobId => removeNode(workflowContent, document, ['jobs', jobId]));
+
+    return { content: applySourceEdits(workflowContent, edits), selection };
+  }
+
+  private applyMatrixFilter(
+    workflowContent: string,
+    matrixFilter: Record<string, string | number | boolean>
+  ): string {
+    const document = parseWorkflowDocument(workflowContent);
+    const filterKeys = Object.keys(matrixFilter);
+    const edits = [];
+
+    for (const jobMatrix of getJobMatrices(document.toJS())) {
+      if (!jobMatrix.combinations.some(combination => filterKeys.some(key => key in combination))) {
+        continue;
+      }
+
+      const combinations = filterMatrixCombinations(jobMatrix.combinations, matrixFilter);
+      if (combinations.length === 0) {
+        const error = new Error(
+          `matrix_filter ${JSON.stringify(matrixFilter)} matches none of the matrix combinations of job '${jobMatrix.jobId}'`
+        );
+        logger.error('Invalid arguments: matrix_filter matches no combinations', error);
+        throw error;
+      }
+
+      // A matrix of only `include` entries runs exactly those combinations
+      edits.push(
+        replaceValue(workflowContent, document, ['jobs', jobMatrix.jobId, 'strategy', 'matrix'], {
+          include: combinations,
+        })
+      );
+      logger.info('Narrowed job matrix', {
+        jobId: jobMatrix.jobId,
+        originalCombinations: jobMatrix.combinations.length,
+        combinations: combinations.length,
+      });
+    }
+
+    if (edits.length === 0) {
+      const error = new Error(
+        `matrix_filter keys ${filterKeys.join(', ')} do not match the matrix of any job. Matrices computed at run time, e.g. with fromJSON, cannot be filtered`
+      );
+      logger.error('Invalid arguments: matrix_filter matches no jobs', error);
+      throw error;
+    }
+
+    return applySourceEdits(workflowContent, edits);
+  }
+
+  /**
+   * Paths in tool arguments are read or written on the server's machine, which clients of a shared
+   * HTTP server must not reach, so they are only accepted over stdio.
+   */
+  private assertLocalPathAllowed(
+    argument: string,
+    path: string | undefined,
+    alternative: string
+  ): void {
+    if (path === undefined || this.config.transport !== 'http') {
+      return;
+    }
+    const error = new Error(
+      `${argument} is not available over the HTTP transport, as it would access the server's file system. Use ${alternative} instead`
+    );
+    logger.error('Rejected local path argument over HTTP', error, { argument });
+    throw error;
+  }
+
+  private async loadWorkflowContent(
+    parsed: z.infer<typeof WorkflowSourceArgsSchema>
+  ): Promise<string> {
+    if (!parsed.workflow_yaml && !parsed.workflow_path) {
+      const error = new Error('Either workflow_yaml or workflow_path must be provided');
+      logger.error('Invalid arguments: missing workflow content', error);
+      throw error;
+    }
+
+    this.assertLocalPathAllowed('workflow_path', parsed.workflow_path, 'workflow_yaml');
+
+    let workflowContent: string;
+
+    if (parsed.workflow_yaml) {
+      workflowContent = parsed.workflow_yaml;
+      logger.info('Using provided workflow YAML', { contentLength: workflowContent.length });
+    } else {
+      try {
+        logger.debug('Reading workflow from file', { path: parsed.workflow_path });
+        const fs = await import('fs/promises');
+        workflowContent = await fs.readFile(parsed.workflow_path!, 'utf-8');
+        logger.info('Successfully read workflow file', {
+          path: parsed.workflow_path,
+          contentLength: workflowContent.length,
+        });
+      } catch (error) {
+        logger.error(
+          'Failed to read workflow file',
+          error instanceof Error ? error : new Error(String(error)),
+          {
+            path: parsed.workflow_path,
+          }
+        );
+        throw new Error(`Failed to read workflow file: ${error}`);
+      }
+    }
+
+    return workflowContent;
+  }
+
+  private async validateWorkflowTool(
+    parsed: z.infer<typeof WorkflowSourceArgsSchema>
+  ): Promise<ToolResult> {
+    const workflowContent = await this.loadWorkflowContent(parsed);
+
+    logger.logWorkflowExecution('validating-original', 'N/A');
+    const errors = this.getWorkflowValidationErrors(workflowContent, 'original');
+    const policyFindings = errors.length === 0 ? this.checkSecurityPolicy(workflowContent) : [];
+
+    return {
+      data: {
+        valid: errors.length === 0,
+        errors,
+        policy_findings: policyFindings,
+        policy_passed: !this.isRejectedByPolicy(policyFindings),
+      },
+    };
+  }
+
+  private async executeWorkflow(
+    parsed: z.infer<typeof ExecuteWorkflowArgsSchema>,
+    { signal, progress }: ToolContext
+  ): Promise<ToolResult> {
+    logger.info('Starting workflow execution', { args: parsed });
+
+    const workflowContent = await this.loadWorkflowContent(parsed);
+    const target = this.resolveTarget(parsed);
+    const polling = this.toPollingOptions(parsed);
+
+    // Validate the original workflow YAML
+    logger.logWorkflowExecution('validating-original', 'N/A');
+    await progress?.('Validating workflow');
+    await this.validateWorkflowYaml(workflowContent, 'original');
+
+    const extraFiles = await this.loadExtraFiles(parsed.extra_files, parsed.extra_files_directory);
+
+    // The security policy is checked before any GitHub call, so rejected workflows never run
+    logger.logWorkflowExecution('checking-policy', 'N/A', { mode: this.config.policy.mode });
+    const policyFindings = this.checkSecurityPolicy(workflowContent, extraFiles);
+    if (this.isRejectedByPolicy(policyFindings)) {
+      return {
+        data: {
+          rejected: true,
+          message: 'The workflow was rejected by the security policy',
+          policy_findings: policyFindings,
+        },
+        isError: true,
+      };
+    }
+
+    // Workflows declaring workflow_dispatch or workflow_call are called with their inputs, and others
+    // run on push, unless a specific event is simulated
+    const { trigger, callInputs } = this.resolveTrigger(
+      workflowContent,
+      parsed.simulate_event?.event,
+      parsed.inputs
+    );
+
+    // Mutate the workflow to ensure it has a trigger we can fire
+    logger.logWorkflowExecution('mutating-trigger', 'N/A', { trigger });
+    let mutatedWorkflowContent = this.mutateWorkflowTrigger(workflowContent, trigger);
+
+    let jobSelection: JobSelection | undefined;
+    if (parsed.jobs) {
+      logger.logWorkflowExecution('selecting-jobs', 'N/A', { jobs: parsed.jobs });
+      ({ content: mutatedWorkflowContent, selection: jobSelection } = this.selectWorkflowJobs(
+        mutatedWorkflowContent,
+        parsed.jobs
+      ));
+    }
+
+    if (parsed.matrix_filter) {
+      logger.logWorkflowExecution('filtering-matrix', 'N/A', {
+        matrixFilter: parsed.matrix_filter,
+      });
+      mutatedWorkflowContent = this.applyMatrixFilter(mutatedWorkflowContent, parsed.matrix_filter);
+    }
+
+    // Re-validate the mutated workflow
+    logger.logWorkflowExecution('validating-mutated', 'N/A');
+    await this.validateWorkflowYaml(mutatedWorkflowContent, 'mutated');
+
+    const uniqueId = crypto.randomUUID();
+    // The ID keeps branches of executions started in the same millisecond apart
+    const branchName =
+      parsed.branch_name || `${EXECUTION_BRANCH_PREFIX}${Date.now()}-${uniqueId.slice(0, 8)}`;
+    const workflowFileName = `.github/workflows/mcp-executed-workflow-${uniqueId}.yml`;
+    // Reusable workflows run through a caller workflow, which is the one that triggers the run
+    const callerWorkflowFileName = callInputs
+      ? `.github/workflows/mcp-executed-workflow-${uniqueId}-caller.yml`
+      : undefined;
+    const callerWorkflowContent = callInputs
+      ? generateCallerWorkflow(workflowFileName, workflowContent, callInputs)
+      : undefined;
+
+    if (parsed.dry_run) {
+      logger.logWorkflowExecution('dry-run', branchName, { workflowFileName });
+      return {
+        data: {
+          dry_run: true,
+          owner: target.owner,
+          repo: target.repo,
+          branch_name: branchName,
+          workflow_file_path: workflowFileName,
+          caller_workflow_file_path: callerWorkflowFileName,
+          event: trigger,
+          call_inputs: callInputs ?? undefined,
+          extra_files: extraFiles.map(file => file.path),
+          job_selection: jobSelection,
+          policy_findings: policyFindings,
+          mutated_workflow_yaml: mutatedWorkflowContent,
+          caller_workflow_yaml: callerWorkflowContent,
+          planned_api_calls: this.planApiCalls(target, {
+            baseRef: parsed.base_ref,
+            branchName,
+            workflowFileName,
+            fileCount: extraFiles.length + (callerWorkflowContent ? 2 : 1),
+            trigger,
+            pullRequestBase: parsed.simulate_event?.base_branch,
+            testReportArtifact: parsed.test_report_artifact,
+          }),
+        },
+      };
+    }
+
+    let branchCreated = false;
+    let pullRequest: { number: number; html_url: string } | undefined;
+    let execution: WorkflowExecution;
+
+    logger.info('Workflow processing complete, starting GitHub operations', {
+      branchName,
+      workflowFileName,
+      owner: target.owner,
+      repo: target.repo,
+    });
+
+    try {
+      throwIfCancelled(signal);
+
+      // Get default branch
+      logger.logGitHubAPI('get-repository', target.owner, target.repo);
+
+      const response = await this.octokit.repos.get({
+        owner: target.owner,
+        repo: target.repo,
+      });
+
+      const repo = response.data;
+
+      const defaultBranch = repo.default_branch;
+      logger.info('Retrieved repository information', {
+        defaultBranch,
+        repoId: repo.id,
+        private: repo.private,
+      });
+
+      // Resolve the ref the temporary branch is based on
+      const baseRef = parsed.base_ref ?? defaultBranch;
+      const baseSha = await this.resolveBaseRef(target, baseRef);
+
+      // Commit the workflow and any extra files on top of the base ref in a single commit
+      logger.logWorkflowExecution('pushing-workflow', branchName);
+      const commitSha = await this.commitFiles(target, baseSha, [
+        ...extraFiles,
+        {
+          path: workflowFileName,
+          content: mutatedWorkflowContent,
+          encoding: 'utf-8',
+          executable: false,
+        },
+        ...(callerWorkflowFileName && callerWorkflowContent
+          ? [
+              {
+                path: callerWorkflowFileName,
+                content: callerWorkflowContent,
+                encoding: 'utf-8' as const,
+                executable: false,
+              },
+            ]
+          : []),
+      ]);
+      logger.info('Workflow file committed successfully', {
+        path: workflowFileName,
+        extraFileCount: extraFiles.length,
+        commitSha,
+        uniqueId,
+      });
+
+      // Create new branch pointing at the commit
+      logger.logGitHubAPI('create-ref', target.owner, target.repo, {
+        newBranch: branchName,
+        fromSha: commitSha,
+      });
+      logger.logWorkflowExecution('creating-branch', branchName);
+
+      await this.octokit.git.createRef({
+        owner: target.owner,
+        repo: target.repo,
+        ref: `refs/heads/${branchName}`,
+        sha: commitSha,
+      });
+      branchCreated = true;
+      logger.info('Branch created successfully', { branchName, sha: commitSha });
+      await progress?.(`Created branch ${branchName}`);
+
+      if (trigger === 'pull_request') {
+        pullRequest = await openPullRequest(
+          this.octokit,
+          target,
+          branchName,
+          parsed.simulate_event?.base_branch ?? defaultBranch
+        );
+        await progress?.(`Opened pull request ${pullRequest.html_url}`);
+      }
+
+      // Wait for GitHub to process the new workflow with exponential backoff
+      logger.debug('Waiting for GitHub to process workflow file and trigger run');
+      const workflowRuns = await this.waitForWorkflowRun(
+        target,
+        branchName,
+        callerWorkflowFileName ?? workflowFileName,
+        polling.detectionTimeoutMs,
+        signal
+      );
+
+      if (workflowRuns.workflow_runs.length === 0) {
+        logger.warn('No workflow run triggered within the detection timeout', {
+          branch: branchName,
+          detectionTimeoutMs: polling.detectionTimeoutMs,
+        });
+        await progress?.('Detection timeout reached, no workflow run was started');
+
+        // A run GitHub only starts now must not run without its branch
+        await cancelBranchRuns(this.octokit, target, branchName);
+        if (pullRequest) {
+          await closePullRequest(this.octokit, target, pullRequest.number);
+        }
+        await deleteBranch(this.octokit, target, branchName);
+
+        return {
+          data: {
+            owner: target.owner,
+            repo: target.repo,
+            branch_name: branchName,
+            workflow_file_path: workflowFileName,
+            caller_workflow_file_path: callerWorkflowFileName,
+            base_ref: baseRef,
+            base_sha: baseSha,
+            event: trigger,
+            branch_deleted: true,
+            timed_out: true,
+            timeout_note: `No workflow run was detected within ${polling.detectionTimeoutMs / 1000} seconds, so the branch was deleted. Check if the workflow YAML is valid and has appropriate triggers, or pass a longer detection_timeout.`,
+          },
+        };
+      }
+
+      const workflowRun = workflowRuns.workflow_runs[0];
+      logger.info('Found workflow run', {
+        runId: workflowRun.id,
+        status: workflowRun.status,
+        conclusion: workflowRun.conclusion,
+        htmlUrl: workflowRun.html_url,
+      });
+      await progress?.(`Detected workflow run ${workflowRun.id}: ${workflowRun.html_url}`);
+
+      execution = {
+        target,
+        runId: workflowRun.id,
+        branchName,
+        workflowFileName,
+        callerWorkflowFileName,
+        htmlUrl: workflowRun.html_url,
+        baseRef,
+        baseSha,
+        startedAt: new Date().toISOString(),
+        event: trigger,
+        state: 'running',
+        branchDeleted: false,
+        keepBranchMinutes: parsed.keep_branch_minutes ?? 0,
+        pullRequestNumber: pullRequest?.number,
+        pullRequestUrl: pullRequest?.html_url,
+        testReport: this.toTestReportOptions(parsed),
+        polling,
+        jobSelection,
+        policyFindings: policyFindings.length > 0 ? policyFindings : undefined,
+        jobMatrices: getJobMatrices(YAML.parse(mutatedWorkflowContent)),
+      };
+      this.executions.add(execution);
+    } catch (error) {
+      // A run may already have started from the branch without being detected yet
+      if (signal?.aborted && branchCreated) {
+        await cancelBranchRuns(this.octokit, target, branchName);
+      }
+
+      // No run was started, so nothing else will clean up the branch or pull request
+      if (pullRequest) {
+        await closePullRequest(this.octokit, target, pullRequest.number);
+      }
+      if (branchCreated) {
+        await deleteBranch(this.octokit, target, branchName);
+      }
+      throw error;
+    }
+
+    // From here on the execution lifecycle owns the branch cleanup. Async runs outlive the request,
+    // so only synchronous executions are cancelled with it
+    const completion = parsed.async
+      ? this.monitorExecution(execution)
+      : this.monitorExecution(execution, signal, progress);
+
+    if (parsed.async) {
+      // Failures are recorded on the execution and surfaced by get_workflow_run_result
+      completion.catch(() => undefined);
+      logger.logWorkflowExecution('returning-run-handle', branchName, { runId: execution.runId });
+      return { data: toRunHandle(execution) };
+    }
+
+    const result = await completion;
+
+    logger.info('Workflow execution completed successfully', {
+      runId: execution.runId,
+      finalStatus: result.status,
+      finalConclusion: result.conclusion,
+    });
+
+    return { data: applyLogOptions(execution.runId, result, this.toLogOptions(parsed)) };
+  }
+
+  private async resolveBaseRef(target: RepositoryTarget, baseRef: string): Promise<string> {
+    logger.logGitHubAPI('get-commit', target.owner, target.repo, { ref: baseRef });
+
+    try {
+      // Accepts a branch name, tag name or commit SHA
+      const { data: commit } = await this.octokit.repos.getCommit({
+        owner: target.owner,
+        repo: target.repo,
+        ref: baseRef,
+      });
+      logger.info('Resolved base ref', { baseRef, sha: commit.sha });
+      return commit.sha;
+    } catch (error) {
+      const status = (error as { status?: number }).status;
+      if (status === 404 || status === 422) {
+        const notFound = new Error(
+          `Base ref '${baseRef}' does not exist in ${target.owner}/${target.repo}. Provide an existing branch, tag or commit SHA`
+        );
+        logger.error('Failed to resolve base ref', notFound, { baseRef, status });
+        throw notFound;
+      }
+      throw error;
+    }
+  }
+
+  private async loadExtraFiles(
+    extraFiles: Record<string, string> | undefined,
+    extraFilesDirectory: string | undefined
+  ): Promise<RepositoryFile[]> {
+    this.assertLocalPathAllowed('extra_files_directory', extraFilesDirectory, 'extra_files');
+
+    const files = new Map<string, RepositoryFile>();
+
+    if (extraFilesDirectory) {
+      try {
+        logger.debug('Reading extra files from directory', { directory: extraFilesDirectory });
+        for (const file of await readDirectoryFiles(extraFilesDirectory)) {
+          files.set(file.path, file);
+        }
+      } catch (error) {
+        logger.error(
+          'Failed to read extra files directory',
+          error instanceof Error ? error : new Error(String(error)),
+          { directory: extraFilesDirectory }
+        );
+        throw new Error(`Failed to read extra files directory: ${error}`);
+      }
+    }
+
+    // Files given inline take precedence over files from the directory
+    for (const [path, content] of Object.entries(extraFiles ?? {})) {
+      const normalized = normalizeRepositoryPath(path);
+      files.set(normalized, { path: normalized, content, encoding: 'utf-8', executable: false });
+    }
+
+    if (files.size > 0) {
+      logger.info('Loaded extra files', { fileCount: files.size, paths: [...files.keys()] });
+    }
+    return [...files.values()];
+  }
+
+  private async commitFiles(
+    target: RepositoryTarget,
+    parentSha: string,
+    files: RepositoryFile[]
+  ): Promise<string> {
+    logger.logGitHubAPI('get-commit', target.owner, target.repo, { sha: parentSha });
+    const { data: parentCommit } = await this.octokit.git.getCommit({
+      owner: target.owner,
+      repo: target.repo,
+      commit_sha: parentSha,
+    });
+
+    const tree = [];
+    for (const file of files) {
+      logger.logGitHubAPI('create-blob', target.owner, target.repo, {
+        path: file.path,
+        contentSize: file.content.length,
+      });
+      const { data: blob } = await this.octokit.git.createBlob({
+        owner: target.owner,
+        repo: target.repo,
+        content: file.content,
+        encoding: file.encoding,
+      });
+      tree.push({
+        path: file.path,
+        mode: file.executable ? ('100755' as const) : ('100644' as const),
+        type: 'blob' as const,
+        sha: blob.sha,
+      });
+    }
+
+    logger.logGitHubAPI('create-tree', target.owner, target.repo, {
+      baseTree: parentCommit.tree.sha,
+      fileCount: tree.length,
+    });
+    const { data: newTree } = await this.octokit.git.createTree({
+      owner: target.owner,
+      repo: target.repo,
+      base_tree: parentCommit.tree.sha,
+      tree,
+    });
+
+    logger.logGitHubAPI('create-commit', target.owner, target.repo, {
+      tree: newTree.sha,
+      parent: parentSha,
+    });
+    const { data: commit } = await this.octokit.git.createCommit({
+      owner: target.owner,
+      repo: target.repo,
+      message: 'Add MCP executed workflow',
+      tree: newTree.sha,
+      parents: [parentSha],
+    });
+
+    return commit.sha;
+  }
+
+  private resolveTarget(args: z.infer<typeof RepositoryArgsSchema>): RepositoryTarget {
+    const target = {
+      owner: args.owner ?? this.config.owner,
+      repo: args.repo ?? this.config.repo,
+    };
+
+    if (!target.owner || !target.repo) {
+      const error = new Error(
+        'No repository specified: provide owner and repo, as the server has no default repository'
+      );
+      logger.error('Invalid arguments: missing repository', error, { args });
+      throw error;
+    }
+
+    // The default repository is always allowed
+    const allowedRepositories = [
+      ...(this.config.owner && this.config.repo
+        ? [`${this.config.owner}/${this.config.repo}`]
+        : []),
+      ...this.config.allowedRepositories,
+    ];
+    if (!matchesRepositoryPatterns(target, allowedRepositories)) {
+      const error = new Error(
+        `Repository ${target.owner}/${target.repo} is not allowed. Allowed repositories: ${allowedRepositories.join(', ')}`
+      );
+      logger.error('Repository not allowed', error, { target });
+      throw error;
+    }
+
+    return target;
+  }
+
+  private planApiCalls(
+    target: RepositoryTarget,
+    plan: {
+      baseRef?: string;
+      branchName: string;
+      workflowFileName: string;
+      fileCount: number;
+      trigger: WorkflowTrigger;
+      pullRequestBase?: string;
+      testReportArtifact?: string;
+    }
+  ): string[] {
+    const repoPath = `/repos/${target.owner}/${target.repo}`;
+    const baseRef = plan.baseRef ?? '<default branch>';
+
+    return [
+      `GET ${repoPath} (look up the default branch)`,
+      `GET ${repoPath}/commits/${baseRef} (resolve the base ref)`,
+      `GET ${repoPath}/git/commits/<base sha> (look up the base tree)`,
+      `POST ${repoPath}/git/blobs (x${plan.fileCount}, one per committed file)`,
+      `POST ${repoPath}/git/trees`,
+      `POST ${repoPath}/git/commits`,
+      `POST ${repoPath}/git/refs (create refs/heads/${plan.branchName})`,
+      ...(plan.trigger === 'pull_request'
+        ? [
+            `POST ${repoPath}/pulls (draft pull request into ${plan.pullRequestBase ?? '<default branch>'})`,
+          ]
+        : []),
+      `GET ${repoPath}/actions/runs?branch=${plan.branchName} (detect the run)`,
+      `GET ${repoPath}/actions/runs/<run id> (poll until completed)`,
+      `GET ${repoPath}/actions/runs/<run id>/jobs`,
+      `GET ${repoPath}/actions/jobs/<job id>/logs (one per job)`,
+      `GET ${repoPath}/check-runs/<job id>/annotations (one per job)`,
+      `GET ${repoPath}/actions/runs/<run id>/artifacts`,
+      ...(plan.testReportArtifact
+        ? [
+            `GET ${repoPath}/actions/artifacts/<artifact id>/zip (test reports from ${plan.testReportArtifact})`,
+          ]
+        : []),
+      ...(plan.trigger === 'pull_request'
+        ? [`PATCH ${repoPath}/pulls/<pull number> (close the pull request)`]
+        : []),
+      `DELETE ${repoPath}/git/refs/heads/${plan.branchName}`,
+    ];
+  }
+
+  private async monitorExecution(
+    execution: WorkflowExecution,
+    signal?: AbortSignal,
+    progress?: ProgressReporter
+  ): Promise<WorkflowRunResult> {
+    logger.logWorkflowExecution('polling-completion', execution.branchName, {
+      runId: execution.runId,
+    });
+
+    try {
+      const runResult = await this.pollWorkflowCompletion(execution.target, execution.runId, {
+        polling: execution.polling,
+        testReport: execution.testReport,
+        signal,
+        progress,
+      });
+      // Jobs of a called reusable workflow are reported under their own names, as if it ran directly
+      const calledJobName = (name: string) =>
+        execution.callerWorkflowFileName ? toCalledJobName(name) : name;
+      const jobs = runResult.jobs.map(job => ({ ...job, name: calledJobName(job.name) }));
+      const result = {
+        ...runResult,
+        jobs,
+        // Annotations on the executed workflow file point at the lines of the submitted workflow,
+        // as mutations keep every line in place
+        annotations: runResult.annotations.map(annotation => ({
+          ...annotation,
+          job_name: annotation.job_name && calledJobName(annotation.job_name),
+        })),
+        matrix_jobs:
+          execution.jobMatrices.length > 0
+            ? groupMatrixJobs(execution.jobMatrices, jobs)
+            : undefined,
+        job_selection: execution.jobSelection,
+        policy_findings: execution.policyFindings,
+        base_ref: execution.baseRef,
+        base_sha: execution.baseSha,
+      };
+      execution.result = result;
+      if (execution.state === 'running') {
+        execution.state = result.conclusion === 'cancelled' ? 'cancelled' : 'completed';
+      }
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.logWorkflowExecution('cancelling', execution.branchName, {
+          runId: execution.runId,
+          reason: 'request cancelled',
+        });
+        await cancelRunAndWait(this.octokit, execution.target, execution.runId);
+        execution.state = 'cancelled';
+        execution.error = 'The request was cancelled by the client';
+        throw error;
+      }
+      execution.state = 'failed';
+      execution.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      // cancel_workflow_run may have deleted the branch while the run was monitored
+      if (execution.branchDeleted) {
+        logger.debug('Branch already deleted', { runId: execution.runId });
+      } else if (
+        execution.keepBranchMinutes > 0 &&
+        execution.state !== 'failed' &&
+        !signal?.aborted
+      ) {
+        this.executions.scheduleCleanup(execution);
+      } else {
+        await this.executions.cleanup(execution);
+      }
+    }
+  }
+
+  private async getWorkflowRunStatus(
+    parsed: z.infer<typeof WorkflowRunArgsSchema>
+  ): Promise<ToolResult> {
+    const runId = parsed.run_id;
+    const execution = this.executions.get(runId);
+    const target = execution?.target ?? this.resolveTarget(parsed);
+
+    logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, { runId });
+    const { data: run } = await this.octokit.actions.getWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
+    });
+
+    const jobs = await listWorkflowRunJobs(this.octokit, target, runId);
+
+    return {
+      data: {
+        run_id: runId,
+        status: run.status,
+        conclusion: run.conclusion,
+        html_url: run.html_url,
+        state: execution?.state ?? 'untracked',
+        branch_name: execution?.branchName,
+        workflow_file_path: execution?.workflowFileName,
+        jobs: jobs.map(job => toJobResult(job)),
+      },
+    };
+  }
+
+  private async getWorkflowRunResult(
+    parsed: z.infer<typeof WorkflowRunResultArgsSchema>
+  ): Promise<ToolResult> {
+    const runId = parsed.run_id;
+    const logOptions = this.toLogOptions(parsed);
+    const execution = this.executions.get(runId);
+    const target = execution?.target ?? this.resolveTarget(parsed);
+
+    if (execution?.result) {
+      return { data: applyLogOptions(runId, execution.result, logOptions) };
+    }
+
+    if (execution?.state === 'failed') {
+      throw new Error(`Workflow run ${runId} could not be monitored: ${execution.error}`);
+    }
+
+    logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, { runId });
+    const { data: run } = await this.octokit.actions.getWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
+    });
+
+    if (run.status !== 'completed') {
+      return {
+        data: {
+          run_id: runId,
+          status: run.status,
+          conclusion: run.conclusion,
+          html_url: run.html_url,
+          message:
+            'Workflow run has not completed yet. Call get_workflow_run_result again later, or cancel_workflow_run to stop it.',
+        },
+      };
+    }
+
+    const result = await collectWorkflowRunResult(
+      this.octokit,
+      target,
+      run,
+      this.toTestReportOptions(parsed)
+    );
+    return { data: applyLogOptions(runId, result, logOptions) };
+  }
 
-      if (!workflow || typeof workflow !== 'object') {
-        const error = new Error('Invalid workflow YAML structure');
-        logger.error('Workflow mutation failed: invalid YAML structure', error);
+  private toPollingOptions(
+    args: z.infer<typeof PollingArgsSchema>,
+    defaults?: PollingOptions
+  ): PollingOptions {
+    const limits = [
+      ['detection_timeout', args.detection_timeout, this.config.maxDetectionTimeout],
+      ['execution_timeout', args.execution_timeout, this.config.maxExecutionTimeout],
+    ] as const;
+    for (const [name, value, max] of limits) {
+      if (value !== undefined && value > max) {
+        const error = new Error(`${name} cannot be more than ${max} seconds`);
+        logger.error('Invalid arguments: timeout above maximum', error, { [name]: value });
         throw error;
       }
+    }
 
-      const originalTrigger = workflow.on;
-      // Set the trigger to push to ensure the workflow runs when we push to the branch
-      workflow.on = 'push';
-
-      const mutatedContent = YAML.stringify(workflow);
-
-      logger.info('Workflow trigger mutated successfully', {
-        originalTrigger: JSON.stringify(originalTrigger),
-        newTrigger: 'push',
-        originalLength: workflowContent.length,
-        mutatedLength: mutatedContent.length,
-      });
+    return {
+      detectionTimeoutMs:
+        args.detection_timeout !== undefined
+          ? args.detection_timeout * 1000
+          : (defaults?.detectionTimeoutMs ?? this.config.detectionTimeout * 1000),
+      executionTimeoutMs:
+        args.execution_timeout !== undefined
+          ? args.execution_timeout * 1000
+          : (defaults?.executionTimeoutMs ?? this.config.executionTimeout * 1000),
+      pollIntervalMs:
+        args.poll_interval !== undefined
+          ? args.poll_interval * 1000
+          : (defaults?.pollIntervalMs ?? this.config.pollInterval * 1000),
+    };
+  }
 
-      return mutatedContent;
-    } catch (error) {
-      logger.error(
-        'Failed to mutate workflow trigger',
-        error instanceof Error ? error : new Error(String(error))
-      );
-      throw new Error(`Failed to mutate workflow trigger: ${error}`);
-    }
+  private toTestReportOptions(
+    args: z.infer<typeof TestReportArgsSchema>
+  ): TestReportOptions | undefined {
+    return args.test_report_artifact
+      ? {
+          artifactName: args.test_report_artifact,
+          patterns: args.test_report_files ?? DEFAULT_TEST_REPORT_PATTERNS,
+        }
+      : undefined;
   }
 
-  private async executeWorkflow(args: unknown) {
-    logger.info('Starting workflow execution', { args });
+  private toLogOptions(args: z.infer<typeof LogOptionsArgsSchema>): LogOptions {
+    return {
+      maxBytes: args.max_log_bytes ?? DEFAULT_MAX_LOG_BYTES,
+      tailLines: args.log_tail_lines ?? 0,
+      failedJobsOnly: args.failed_jobs_logs_only ?? false,
+      failedStepsOnly: args.failed_steps_logs_only ?? false,
+    };
+  }
 
-    const parsed = ExecuteWorkflowArgsSchema.parse(args);
-    logger.debug('Parsed workflow arguments', { parsed });
+  private async cancelWorkflowRun({
+    run_id: runId,
+  }: z.infer<typeof WorkflowRunArgsSchema>): Promise<ToolResult> {
+    const execution = this.executions.get(runId);
 
-    if (!parsed.workflow_yaml && !parsed.workflow_path) {
-      const error = new Error('Either workflow_yaml or workflow_path must be provided');
-      logger.error('Invalid arguments: missing workflow content', error);
+    if (!execution) {
+      const error = new Error(`Workflow run ${runId} was not started by this server`);
+      logger.error('Cannot cancel untracked workflow run', error, { runId });
       throw error;
     }
 
-    let workflowContent: string;
-
-    if (parsed.workflow_yaml) {
-      workflowContent = parsed.workflow_yaml;
-      logger.info('Using provided workflow YAML', { contentLength: workflowContent.length });
-    } else {
-      try {
-        logger.debug('Reading workflow from file', { path: parsed.workflow_path });
-        const fs = await import('fs/promises');
-        workflowContent = await fs.readFile(parsed.workflow_path!, 'utf-8');
-        logger.info('Successfully read workflow file', {
-          path: parsed.workflow_path,
-          contentLength: workflowContent.length,
-        });
-      } catch (error) {
-        logger.error(
-          'Failed to read workflow file',
-          error instanceof Error ? error : new Error(String(error)),
-          {
-            path: parsed.workflow_path,
-          }
-        );
-        throw new Error(`Failed to read workflow file: ${error}`);
-      }
+    if (execution.state !== 'running') {
+      return {
+        data: {
+          ...toRunHandle(execution),
+          message: `Workflow run is already ${execution.state}`,
+        },
+      };
     }
 
-    // Validate the original workflow YAML
-    logger.logWorkflowExecution('validating-original', 'N/A');
-    await this.validateWorkflowYaml(workflowContent, 'original');
+    logger.logWorkflowExecution('cancelling', execution.branchName, { runId });
+    // The run must stop before its branch is deleted, and may complete before it is cancelled
+    await cancelRunAndWait(this.octokit, execution.target, runId);
+    if (execution.state === 'running') {
+      execution.state = 'cancelled';
+    }
 
-    // Mutate the workflow to ensure it has a push trigger
-    logger.logWorkflowExecution('mutating-trigger', 'N/A');
-    const mutatedWorkflowContent = this.mutateWorkflowTrigger(workflowContent);
+    await this.executions.cleanup(execution);
 
-    // Re-validate the mutated workflow
-    logger.logWorkflowExecution('validating-mutated', 'N/A');
-    await this.validateWorkflowYaml(mutatedWorkflowContent, 'mutated');
+    return {
+      data: {
+        ...toRunHandle(execution),
+        branch_deleted: execution.branchDeleted,
+      },
+    };
+  }
 
-    const uniqueId = crypto.randomUUID();
-    const branchName = parsed.branch_name || `mcp-workflow-${Date.now()}`;
-    const workflowFileName = `.github/workflows/mcp-executed-workflow-${uniqueId}.yml`;
-    let branchCreated = false;
+  private async rerunWorkflowRun(
+    parsed: z.infer<typeof RerunWorkflowArgsSchema>,
+    { signal, progress }: ToolContext
+  ): Promise<ToolResult> {
+    const runId = parsed.run_id;
+    const execution = this.executions.get(runId);
+    const target = execution?.target ?? this.resolveTarget(parsed);
+    const polling = this.toPollingOptions(parsed, execution?.polling);
+
+    if (execution?.state === 'running') {
+      const error = new Error(`Workflow run ${runId} is still running`);
+      logger.error('Cannot re-run a running workflow run', error, { runId });
+      throw error;
+    }
+    if (execution?.branchDeleted) {
+      const error = new Error(
+        `The temporary branch ${execution.branchName} of workflow run ${runId} has already been deleted. Pass keep_branch_minutes to execute_github_actions_workflow to keep it for re-runs`
+      );
+      logger.error('Cannot re-run a workflow run without its branch', error, { runId });
+      throw error;
+    }
 
-    logger.info('Workflow processing complete, starting GitHub operations', {
-      branchName,
-      workflowFileName,
-      owner: this.config.owner,
-      repo: this.config.repo,
+    logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, { runId });
+    const { data: run } = await this.octokit.actions.getWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
     });
 
-    try {
-      // Get default branch
-      logger.logGitHubAPI('get-repository', this.config.owner, this.config.repo);
-
-      const response = await this.octokit.repos.get({
-        owner: this.config.owner,
-        repo: this.config.repo,
-      });
-
-      const repo = response.data;
+    if (run.status !== 'completed') {
+      const error = new Error(
+        `Workflow run ${runId} has not completed yet (status: ${run.status})`
+      );
+      logger.error('Cannot re-run an incomplete workflow run', error, { runId });
+      throw error;
+    }
 
-      const defaultBranch = repo.default_branch;
-      logger.info('Retrieved repository information', {
-        defaultBranch,
-        repoId: repo.id,
-        private: repo.private,
-      });
+    const failedJobsOnly = parsed.failed_jobs_only ?? true;
+    const previousAttempt = run.run_attempt ?? 1;
+    logger.logWorkflowExecution('re-running', run.head_branch ?? 'N/A', {
+      runId,
+      previousAttempt,
+      failedJobsOnly,
+    });
 
-      // Get the SHA of the default branch
-      logger.logGitHubAPI('get-ref', this.config.owner, this.config.repo, {
-        ref: `heads/${defaultBranch}`,
+    if (failedJobsOnly) {
+      logger.logGitHubAPI('rerun-failed-jobs', target.owner, target.repo, { runId });
+      await this.octokit.actions.reRunWorkflowFailedJobs({
+        owner: target.owner,
+        repo: target.repo,
+        run_id: runId,
       });
-      const { data: ref } = await this.octokit.git.getRef({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        ref: `heads/${defaultBranch}`,
+    } else {
+      logger.logGitHubAPI('rerun-workflow', target.owner, target.repo, { runId });
+      await this.octokit.actions.reRunWorkflow({
+        owner: target.owner,
+        repo: target.repo,
+        run_id: runId,
       });
-      logger.debug('Retrieved default branch SHA', { sha: ref.object.sha, ref: ref.ref });
+    }
 
-      // Create new branch
-      logger.logGitHubAPI('create-ref', this.config.owner, this.config.repo, {
-        newBranch: branchName,
-        fromSha: ref.object.sha,
-      });
-      logger.logWorkflowExecution('creating-branch', branchName);
+    await progress?.(
+      failedJobsOnly ? `Re-running failed jobs of run ${runId}` : `Re-running run ${runId}`
+    );
 
-      await this.octokit.git.createRef({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        ref: `refs/heads/${branchName}`,
-        sha: ref.object.sha,
-      });
-      branchCreated = true;
-      logger.info('Branch created successfully', { branchName, sha: ref.object.sha });
+    let completion: Promise<WorkflowRunResult>;
+    if (execution) {
+      // The branch is needed again until the new attempt finishes
+      clearTimeout(execution.cleanupTimer);
+      execution.cleanupTimer = undefined;
+      execution.branchExpiresAt = undefined;
+      execution.state = 'running';
+      execution.result = undefined;
+      execution.error = undefined;
+      execution.keepBranchMinutes = parsed.keep_branch_minutes ?? execution.keepBranchMinutes;
+      execution.testReport = this.toTestReportOptions(parsed) ?? execution.testReport;
+      execution.polling = polling;
 
-      // Check if .github/workflows directory exists (for future use if needed)
-      logger.debug('Checking if .github directory exists');
       try {
-        await this.octokit.repos.getContent({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          path: '.github',
-          ref: branchName,
-        });
-        logger.debug('.github directory exists');
-      } catch {
-        logger.debug('.github directory does not exist, will be created when needed');
+        await this.waitForRunAttempt(
+          target,
+          runId,
+          previousAttempt,
+          polling.detectionTimeoutMs,
+          signal
+        );
+      } catch (error) {
+        // The new attempt may already be queued, and must not run without its branch
+        if (signal?.aborted) {
+          await cancelRunAndWait(this.octokit, target, runId);
+        }
+        execution.state = 'failed';
+        execution.error = error instanceof Error ? error.message : String(error);
+        await this.executions.cleanup(execution);
+        throw error;
       }
-
-      // Create or update the workflow file with mutated content
-      const content = Buffer.from(mutatedWorkflowContent).toString('base64');
-      logger.logGitHubAPI('create-file', this.config.owner, this.config.repo, {
-        path: workflowFileName,
-        branch: branchName,
-        contentSize: content.length,
-      });
-      logger.logWorkflowExecution('pushing-workflow', branchName);
-
-      await this.octokit.repos.createOrUpdateFileContents({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        path: workflowFileName,
-        message: `Add MCP executed workflow`,
-        content,
-        branch: branchName,
-      });
-      logger.info('Workflow file pushed successfully', {
-        path: workflowFileName,
-        branch: branchName,
-        uniqueId,
-      });
-
-      // Wait for GitHub to process the new workflow with exponential backoff
-      logger.debug('Waiting for GitHub to process workflow file and trigger run');
-      const workflowRuns = await this.waitForWorkflowRun(branchName, workflowFileName);
-
-      if (workflowRuns.workflow_runs.length === 0) {
-        const error = new Error(
-          'No workflow run was triggered. Check if the workflow YAML is valid and has appropriate triggers.'
+      completion = parsed.async
+        ? this.monitorExecution(execution)
+        : this.monitorExecution(execution, signal, progress);
+    } else {
+      try {
+        await this.waitForRunAttempt(
+          target,
+          runId,
+          previousAttempt,
+          polling.detectionTimeoutMs,
+          signal
         );
-        logger.error('No workflow run triggered', error, { branch: branchName });
+      } catch (error) {
+        if (signal?.aborted) {
+          await cancelRunAndWait(this.octokit, target, runId);
+        }
         throw error;
       }
-
-      const workflowRun = workflowRuns.workflow_runs[0];
-      logger.info('Found workflow run', {
-        runId: workflowRun.id,
-        status: workflowRun.status,
-        conclusion: workflowRun.conclusion,
-        htmlUrl: workflowRun.html_url,
+      const pollSignal = parsed.async ? undefined : signal;
+      completion = this.pollWorkflowCompletion(target, runId, {
+        polling,
+        testReport: this.toTestReportOptions(parsed),
+        signal: pollSignal,
+        progress: parsed.async ? undefined : progress,
+      }).catch(async error => {
+        if (pollSignal?.aborted) {
+          await cancelRunAndWait(this.octokit, target, runId);
+        }
+        throw error;
       });
+    }
+
+    if (parsed.async) {
+      // Failures are recorded on the execution and surfaced by get_workflow_run_result
+      completion.catch(() => undefined);
+      return {
+        data: {
+          ...(execution ? toRunHandle(execution) : { ...target, run_id: runId }),
+          html_url: run.html_url,
+          run_attempt: previousAttempt + 1,
+        },
+      };
+    }
 
-      // Poll for completion
-      logger.logWorkflowExecution('polling-completion', branchName, { runId: workflowRun.id });
-      const result = await this.pollWorkflowCompletion(workflowRun.id);
+    const result = await completion;
+    logger.info('Workflow re-run completed', {
+      runId,
+      runAttempt: result.run_attempt,
+      finalConclusion: result.conclusion,
+    });
 
-      logger.info('Workflow execution completed successfully', {
-        runId: workflowRun.id,
-        finalStatus: result.status,
-        finalConclusion: result.conclusion,
+    return { data: applyLogOptions(runId, result, this.toLogOptions(parsed)) };
+  }
+
+  private async waitForRunAttempt(
+    target: RepositoryTarget,
+    runId: number,
+    previousAttempt: number,
+    maxWaitTime: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const startTime = Date.now();
+    let delay = 1000;
+
+    // The run keeps reporting the previous attempt until GitHub has queued the new one
+    while (Date.now() - startTime < maxWaitTime) {
+      logger.logGitHubAPI('get-workflow-run', target.owner, target.repo, { runId });
+      const { data: run } = await this.octokit.actions.getWorkflowRun({
+        owner: target.owner,
+        repo: target.repo,
+        run_id: runId,
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } finally {
-      // Cleanup: always attempt to delete the branch if it was created
-      if (branchCreated) {
-        logger.logWorkflowExecution('cleaning-up', branchName);
-        try {
-          logger.logGitHubAPI('delete-ref', this.config.owner, this.config.repo, {
-            ref: `heads/${branchName}`,
-          });
-          await this.octokit.git.deleteRef({
-            owner: this.config.owner,
-            repo: this.config.repo,
-            ref: `heads/${branchName}`,
-          });
-          logger.logCleanup(branchName, true);
-        } catch (cleanupError) {
-          const error =
-            cleanupError instanceof Error ? cleanupError : new Error(String(cleanupError));
-          logger.logCleanup(branchName, false, error);
-          console.warn(`Failed to cleanup branch ${branchName}:`, cleanupError);
-        }
+      if ((run.run_attempt ?? 1) > previousAttempt) {
+        logger.info('Workflow run attempt started', { runId, runAttempt: run.run_attempt });
+        return;
       }
+
+      await sleep(delay, signal);
+      delay = Math.min(delay * 2, 8000);
     }
+
+    logger.warn('Timed out waiting for the new workflow run attempt, polling anyway', {
+      runId,
+      previousAttempt,
+    });
+  }
+
+  private async cleanupStaleExecutionsTool(
+    parsed: z.infer<typeof CleanupStaleExecutionsArgsSchema>
+  ): Promise<ToolResult> {
+    const target = this.resolveTarget(parsed);
+    const maxAgeMinutes = parsed.max_age_minutes ?? this.config.staleExecutionMinutes;
+
+    const staleExecutions = await cleanupStaleExecutions(
+      this.octokit,
+      target,
+      this.executions.activeBranches(target),
+      {
+        maxAgeMinutes,
+        deleteRuns: parsed.delete_runs ?? false,
+        dryRun: parsed.dry_run ?? false,
+      }
+    );
+
+    return {
+      data: {
+        owner: target.owner,
+        repo: target.repo,
+        dry_run: parsed.dry_run ?? false,
+        max_age_minutes: maxAgeMinutes,
+        stale_executions: staleExecutions,
+      },
+    };
   }
 
-  private async waitForWorkflowRun(branchName: string, workflowFileName: string) {
-    const maxWaitTime = 30000; // 30 seconds max
+  private async waitForWorkflowRun(
+    target: RepositoryTarget,
+    branchName: string,
+    workflowFileName: string,
+    maxWaitTime: number,
+    signal?: AbortSignal
+  ) {
     const startTime = Date.now();
     let attempt = 0;
     let delay = 1000; // Start with 1 second
@@ -420,13 +2315,13 @@ class GitHubActionsWorkflowServer {
         currentDelayMs: delay,
       });
 
-      logger.logGitHubAPI('list-workflow-runs', this.config.owner, this.config.repo, {
+      logger.logGitHubAPI('list-workflow-runs', target.owner, target.repo, {
         branch: branchName,
       });
 
       const { data: allWorkflowRuns } = await this.octokit.actions.listWorkflowRunsForRepo({
-        owner: this.config.owner,
-        repo: this.config.repo,
+        owner: target.owner,
+        repo: target.repo,
         branch: branchName,
         per_page: 20, // Get more runs to filter through
       });
@@ -485,7 +2380,7 @@ class GitHubActionsWorkflowServer {
           nextDelayMs: Math.min(delay * 2, 5000),
         });
 
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, signal);
         delay = Math.min(delay * 2, 5000); // Cap at 5 seconds
       } else {
         logger.warn('Insufficient time remaining for next attempt', {
@@ -510,141 +2405,370 @@ class GitHubActionsWorkflowServer {
     return { workflow_runs: [], total_count: 0 };
   }
 
-  private async pollWorkflowCompletion(runId: number) {
-    const maxAttempts = 60; // 10 minutes max
-    const pollInterval = 10000; // 10 seconds
+  private async pollWorkflowCompletion(
+    target: RepositoryTarget,
+    runId: number,
+    options: {
+      polling: PollingOptions;
+      testReport?: TestReportOptions;
+      signal?: AbortSignal;
+      progress?: ProgressReporter;
+    }
+  ): Promise<WorkflowRunResult> {
+    const { polling, testReport, signal, progress } = options;
+    const deadline = Date.now() + polling.executionTimeoutMs;
+    let lastStatus: string | null = null;
+    const jobStatuses = new Map<string, string | null>();
 
     logger.info('Starting workflow polling', {
       runId,
-      maxAttempts,
-      pollIntervalMs: pollInterval,
-      maxTimeoutMinutes: (maxAttempts * pollInterval) / 60000,
+      pollIntervalMs: polling.pollIntervalMs,
+      executionTimeoutMs: polling.executionTimeoutMs,
     });
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      logger.debug(`Polling attempt ${attempt + 1}/${maxAttempts}`, { runId, attempt });
+    for (let attempt = 1; ; attempt++) {
+      logger.debug(`Polling attempt ${attempt}`, { runId, attempt });
 
       const { data: run } = await this.octokit.actions.getWorkflowRun({
-        owner: this.config.owner,
-        repo: this.config.repo,
+        owner: target.owner,
+        repo: target.repo,
         run_id: runId,
       });
 
       logger.debug('Workflow run status check', {
         runId,
-        attempt: attempt + 1,
+        attempt,
         status: run.status,
         conclusion: run.conclusion,
         createdAt: run.created_at,
         updatedAt: run.updated_at,
       });
 
+      if (progress && run.status !== lastStatus && run.status !== 'completed') {
+        await progress(`Workflow run ${run.status?.replace('_', ' ')}`);
+      }
+      lastStatus = run.status;
+
+      // Jobs tell how close the run is to finishing, and what to report as progress
+      let jobs: WorkflowJob[] | undefined;
+      if (run.status === 'in_progress' || (progress && run.status === 'completed')) {
+        jobs = await listWorkflowRunJobs(this.octokit, target, runId);
+        for (const message of progress ? describeJobProgress(jobStatuses, jobs) : []) {
+          await progress!(message);
+        }
+      }
+
       if (run.status === 'completed') {
         logger.info('Workflow run completed, fetching job details', {
           runId,
           conclusion: run.conclusion,
-          totalAttempts: attempt + 1,
-        });
-
-        // Get jobs for detailed information and logs
-        const { data: jobs } = await this.octokit.actions.listJobsForWorkflowRun({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          run_id: runId,
-        });
-
-        logger.info('Retrieved job details', {
-          runId,
-          jobCount: jobs.jobs.length,
-          jobStatuses: jobs.jobs.map(job => ({
-            name: job.name,
-            status: job.status,
-            conclusion: job.conclusion,
-          })),
+          totalAttempts: attempt,
         });
 
-        // Collect logs from all jobs
-        let allLogs = '';
-        for (const job of jobs.jobs) {
-          try {
-            logger.debug('Fetching logs for job', { jobId: job.id, jobName: job.name });
-            const { data: logData } = await this.octokit.actions.downloadJobLogsForWorkflowRun({
-              owner: this.config.owner,
-              repo: this.config.repo,
-              job_id: job.id,
-            });
-
-            // logData is a string with raw logs
-            const jobLogs = typeof logData === 'string' ? logData : logData.toString();
-
-            if (jobLogs.trim()) {
-              allLogs += `=== Job: ${job.name} ===\n`;
-              allLogs += jobLogs;
-              allLogs += '\n\n';
-            }
-          } catch (logError) {
-            logger.warn('Failed to fetch logs for job', logError, {
-              jobId: job.id,
-              jobName: job.name,
-            });
-            allLogs += `=== Job: ${job.name} ===\n`;
-            allLogs += `[Error fetching logs: ${logError}]\n\n`;
-          }
-        }
-
-        const result = {
-          status: run.status,
-          conclusion: run.conclusion,
-          html_url: run.html_url,
-          logs: allLogs,
-        };
+        await progress?.(`Workflow run completed (${run.conclusion}), collecting results`);
+        const result = await collectWorkflowRunResult(this.octokit, target, run, testReport);
 
         logger.info('Workflow polling completed successfully', { runId });
         return result;
       }
 
-      if (attempt < maxAttempts - 1) {
-        logger.debug(`Workflow still running, waiting ${pollInterval}ms before next poll`, {
-          runId,
-          currentStatus: run.status,
-          remainingAttempts: maxAttempts - attempt - 1,
-        });
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return this.collectTimedOutRunResult(target, runId, polling, testReport, progress, signal);
       }
+
+      const delay = Math.min(
+        nextPollDelay(run.status, polling.pollIntervalMs, jobs, this.requests.getRateLimit()),
+        remaining
+      );
+      logger.debug(`Workflow still running, waiting ${delay}ms before next poll`, {
+        runId,
+        currentStatus: run.status,
+        remainingMs: remaining,
+      });
+      await sleep(delay, signal);
     }
+  }
 
-    const error = new Error(`Workflow run ${runId} did not complete within the timeout period`);
-    logger.error('Workflow polling timeout', error, {
+  private async collectTimedOutRunResult(
+    target: RepositoryTarget,
+    runId: number,
+    polling: PollingOptions,
+    testReport?: TestReportOptions,
+    progress?: ProgressReporter,
+    signal?: AbortSignal
+  ): Promise<WorkflowRunResult> {
+    logger.warn('Workflow run did not complete within the execution timeout, cancelling it', {
       runId,
-      maxAttempts,
-      timeoutMinutes: (maxAttempts * pollInterval) / 60000,
+      executionTimeoutMs: polling.executionTimeoutMs,
     });
-    throw error;
+    await progress?.('Execution timeout reached, cancelling the workflow run');
+
+    // Cancelling stops the run using runners, and makes GitHub publish the logs written so far
+    await cancelRunAndWait(this.octokit, target, runId, signal);
+    const { data: run } = await this.octokit.actions.getWorkflowRun({
+      owner: target.owner,
+      repo: target.repo,
+      run_id: runId,
+    });
+    const result = await collectWorkflowRunResult(this.octokit, target, run, testReport);
+
+    return {
+      ...result,
+      timed_out: true,
+      timeout_note: `The run did not complete within ${polling.executionTimeoutMs / 1000} seconds and was cancelled. Jobs and logs are as of the cancellation. Pass a longer execution_timeout to wait longer.`,
+    };
+  }
+
+  private async findArtifact(
+    target: RepositoryTarget,
+    args: z.infer<typeof DownloadArtifactArgsSchema>
+  ): Promise<WorkflowArtifact> {
+    if (args.artifact_id) {
+      logger.logGitHubAPI('get-artifact', target.owner, target.repo, {
+        artifactId: args.artifact_id,
+      });
+      const { data: artifact } = await this.octokit.actions.getArtifact({
+        owner: target.owner,
+        repo: target.repo,
+        artifact_id: args.artifact_id,
+      });
+      return artifact;
+    }
+
+    if (!args.run_id || !args.artifact_name) {
+      const error = new Error('Either artifact_id, or run_id and artifact_name must be provided');
+      logger.error('Invalid arguments: missing artifact', error);
+      throw error;
+    }
+
+    const artifacts = await listWorkflowRunArtifacts(this.octokit, target, args.run_id);
+    const artifact = artifacts.find(candidate => candidate.name === args.artifact_name);
+    if (!artifact) {
+      const error = new Error(
+        `Workflow run ${args.run_id} has no artifact named '${args.artifact_name}'. Available artifacts: ${
+          artifacts.map(candidate => candidate.name).join(', ') || 'none'
+        }`
+      );
+      logger.error('Artifact not found', error, { runId: args.run_id });
+      throw error;
+    }
+    return artifact;
+  }
+
+  private async downloadArtifactTool(
+    parsed: z.infer<typeof DownloadArtifactArgsSchema>
+  ): Promise<ToolResult> {
+    this.assertLocalPathAllowed(
+      'destination_directory',
+      parsed.destination_directory,
+      'inline_files'
+    );
+    const execution = parsed.run_id ? this.executions.get(parsed.run_id) : undefined;
+    const target = execution?.target ?? this.resolveTarget(parsed);
+
+    const artifact = await this.findArtifact(target, parsed);
+    const files = await downloadArtifactFiles(
+      this.octokit,
+      target,
+      artifact,
+      parsed.max_artifact_bytes ?? DEFAULT_MAX_ARTIFACT_BYTES
+    );
+
+    if (parsed.destination_directory) {
+      logger.debug('Extracting artifact', { directory: parsed.destination_directory });
+      await writeArtifactFiles(parsed.destination_directory, files);
+    }
+
+    const inlinePatterns = parsed.inline_files ?? [];
+    const inlineFiles = files
+      .filter(file => inlinePatterns.some(pattern => matchesGlob(file.path, pattern)))
+      .map(file => toInlineFile(file, parsed.max_inline_bytes ?? DEFAULT_MAX_INLINE_FILE_BYTES));
+
+    return {
+      data: {
+        artifact: toArtifactResult(artifact),
+        files: files.map(file => ({ path: file.path, size: file.content.length })),
+        extracted_to: parsed.destination_directory,
+        inline_files: inlinePatterns.length > 0 ? inlineFiles : undefined,
+      },
+    };
   }
 
   async run() {
-    logger.info('Starting MCP server transport connection');
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    // Fail fast on credentials that cannot execute workflows, rather than on the first tool call
+    if (this.config.skipAccessCheck) {
+      logger.warn('Skipping the startup repository access check');
+    } else {
+      for (const target of this.getNamedRepositories()) {
+        await verifyRepositoryAccess(this.octokit, this.config, target);
+      }
+    }
+
+    if (this.config.transport === 'http') {
+      await startHttpTransport(
+        {
+          host: this.config.httpHost,
+          port: this.config.httpPort,
+          authToken: this.config.httpAuthToken,
+          sessionIdleTimeoutMs: this.config.httpSessionIdleMinutes * 60 * 1000,
+        },
+        () => this.createSession()
+      );
+    } else {
+      logger.info('Starting MCP server transport connection');
+      const transport = new StdioServerTransport();
+      await this.createSession().connect(transport);
+    }
     logger.info('MCP server connected and ready to accept requests');
+
+    if (this.config.cleanupOnStartup) {
+      void this.sweepStaleExecutions();
+    }
+  }
+
+  /**
+   * The default repository and the allowed repositories named without wildcards. Wildcard patterns
+   * cannot be enumerated.
+   */
+  private getNamedRepositories(): RepositoryTarget[] {
+    return [
+      ...(this.config.owner && this.config.repo
+        ? [{ owner: this.config.owner, repo: this.config.repo }]
+        : []),
+      ...this.config.allowedRepositories
+        .filter(pattern => !pattern.includes('*'))
+        .map(pattern => {
+          const [owner, repo] = pattern.split('/');
+          return { owner, repo };
+        }),
+    ];
+  }
+
+  private async sweepStaleExecutions(): Promise<void> {
+    for (const target of this.getNamedRepositories()) {
+      try {
+        await cleanupStaleExecutions(this.octokit, target, this.executions.activeBranches(target), {
+          maxAgeMinutes: this.config.staleExecutionMinutes,
+          deleteRuns: false,
+          dryRun: false,
+        });
+      } catch (error) {
+        logger.warn('Startup cleanup of stale executions failed', {
+          ...target,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
+
+function numberFromEnv(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  return value ? Number(value) : defaultValue;
+}
+
+// A comma or whitespace separated list, or undefined when the variable is not set
+function listFromEnv(name: string): string[] | undefined {
+  const value = process.env[name];
+  return value === undefined ? undefined : value.split(/[\s,]+/).filter(item => item.length > 0);
+}
+
+/**
+ * Read the GitHub App private key from GITHUB_APP_PRIVATE_KEY, where newlines may be escaped as
+ * "\n", or from the file named by GITHUB_APP_PRIVATE_KEY_PATH.
+ */
+async function readAppPrivateKey(): Promise<string> {
+  if (process.env.GITHUB_APP_PRIVATE_KEY) {
+    return process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
   }
+  if (!process.env.GITHUB_APP_PRIVATE_KEY_PATH) {
+    return '';
+  }
+
+  const fs = await import('fs/promises');
+  return fs.readFile(process.env.GITHUB_APP_PRIVATE_KEY_PATH, 'utf-8');
 }
 
 // Main execution
 async function main() {
   logger.info('=== GitHub Actions Workflow MCP Server Starting ===');
 
+  const maxDetectionTimeout = numberFromEnv(
+    'GITHUB_MAX_DETECTION_TIMEOUT',
+    DEFAULT_MAX_DETECTION_TIMEOUT
+  );
+  const maxExecutionTimeout = numberFromEnv(
+    'GITHUB_MAX_EXECUTION_TIMEOUT',
+    DEFAULT_MAX_EXECUTION_TIMEOUT
+  );
+
   const config = {
     owner: process.env.GITHUB_OWNER || '',
     repo: process.env.GITHUB_REPO || '',
     token: process.env.GITHUB_TOKEN || '',
+    appId: process.env.GITHUB_APP_ID || '',
+    appPrivateKey: await readAppPrivateKey(),
+    appInstallationId: process.env.GITHUB_APP_INSTALLATION_ID || '',
+    apiUrl: process.env.GITHUB_API_URL || DEFAULT_API_URL,
+    skipAccessCheck: process.env.GITHUB_SKIP_ACCESS_CHECK === 'true',
+    allowedRepositories: parseRepositoryPatterns(process.env.GITHUB_ALLOWED_REPOS),
+    cleanupOnStartup: process.env.GITHUB_CLEANUP_ON_STARTUP === 'true',
+    // By default a branch is only stale once no execution can still be running or keeping it
+    staleExecutionMinutes: numberFromEnv(
+      'GITHUB_STALE_EXECUTION_MINUTES',
+      Math.ceil((maxDetectionTimeout + maxExecutionTimeout) / 60) +
+        MAX_KEEP_BRANCH_MINUTES +
+        STALE_EXECUTION_MARGIN_MINUTES
+    ),
+    detectionTimeout: numberFromEnv('GITHUB_DETECTION_TIMEOUT', DEFAULT_DETECTION_TIMEOUT),
+    maxDetectionTimeout,
+    executionTimeout: numberFromEnv('GITHUB_EXECUTION_TIMEOUT', DEFAULT_EXECUTION_TIMEOUT),
+    maxExecutionTimeout,
+    pollInterval: numberFromEnv('GITHUB_POLL_INTERVAL', DEFAULT_POLL_INTERVAL),
+    transport: (process.env.MCP_TRANSPORT || 'stdio') as Config['transport'],
+    httpHost: process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST,
+    httpPort: numberFromEnv('MCP_HTTP_PORT', DEFAULT_HTTP_PORT),
+    httpAuthToken: process.env.MCP_HTTP_AUTH_TOKEN || '',
+    httpSessionIdleMinutes: numberFromEnv(
+      'MCP_HTTP_SESSION_IDLE_MINUTES',
+      DEFAULT_HTTP_SESSION_IDLE_MINUTES
+    ),
+    policy: {
+      mode: (process.env.GITHUB_POLICY_MODE || 'warn') as SecurityPolicy['mode'],
+      trustedActionOwners:
+        listFromEnv('GITHUB_POLICY_TRUSTED_ACTION_OWNERS') ?? DEFAULT_TRUSTED_ACTION_OWNERS,
+      allowedWritePermissions:
+        listFromEnv('GITHUB_POLICY_ALLOWED_WRITE_PERMISSIONS') ?? DEFAULT_ALLOWED_WRITE_PERMISSIONS,
+      allowedSecrets: listFromEnv('GITHUB_POLICY_ALLOWED_SECRETS'),
+      allowedRunnerLabels: listFromEnv('GITHUB_POLICY_ALLOWED_RUNNER_LABELS'),
+    },
   };
 
   logger.debug('Reading configuration from environment variables', {
     hasOwner: !!config.owner,
     hasRepo: !!config.repo,
+    allowedRepositories: config.allowedRepositories,
+    skipAccessCheck: config.skipAccessCheck,
+    cleanupOnStartup: config.cleanupOnStartup,
+    staleExecutionMinutes: config.staleExecutionMinutes,
+    detectionTimeout: config.detectionTimeout,
+    maxDetectionTimeout: config.maxDetectionTimeout,
+    executionTimeout: config.executionTimeout,
+    maxExecutionTimeout: config.maxExecutionTimeout,
+    pollInterval: config.pollInterval,
+    transport: config.transport,
+    httpHost: config.httpHost,
+    httpPort: config.httpPort,
+    hasHttpAuthToken: !!config.httpAuthToken,
+    httpSessionIdleMinutes: config.httpSessionIdleMinutes,
+    policy: config.policy,
     hasToken: !!config.token,
     tokenLength: config.token.length,
+    hasAppId: !!config.appId,
+    hasAppPrivateKey: !!config.appPrivateKey,
+    hasAppInstallationId: !!config.appInstallationId,
+    apiUrl: config.apiUrl,
   });
 
   try {
@@ -659,11 +2783,15 @@ async function main() {
           owner: config.owner || '[missing]',
           repo: config.repo || '[missing]',
           hasToken: !!config.token,
+          hasApp: !!config.appId,
+          apiUrl: config.apiUrl,
         },
       }
     );
     console.error('Configuration error:', error);
-    console.error('Please set GITHUB_OWNER, GITHUB_REPO, and GITHUB_TOKEN environment variables');
+    console.error(
+      'Please set GITHUB_TOKEN (or GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY and GITHUB_APP_INSTALLATION_ID), and either GITHUB_OWNER and GITHUB_REPO or GITHUB_ALLOWED_REPOS environment variables'
+    );
     process.exit(1);
   }
 
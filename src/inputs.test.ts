@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getEventConfig, validateWorkflowInputs } from './inputs.js';
+
+const DISPATCH_CONFIG = {
+  inputs: {
+    environment: { type: 'choice', options: ['staging', 'production'], required: true },
+    'dry-run': { type: 'boolean', default: true },
+    replicas: { type: 'number' },
+    message: { required: true, default: 'deploy' },
+    notes: null,
+  },
+};
+
+const DISPATCH_WORKFLOW_ON = { push: { branches: ['main'] }, workflow_dispatch: DISPATCH_CONFIG };
+
+const validate = (provided: Record<string, string | number | boolean>) =>
+  validateWorkflowInputs('workflow_dispatch', DISPATCH_CONFIG, {
+    environment: 'staging',
+    ...provided,
+  });
+
+describe('getEventConfig', () => {
+  it('reads triggers given as a name, a list or a map', () => {
+    assert.deepEqual(getEventConfig('workflow_dispatch', 'workflow_dispatch'), {});
+    assert.deepEqual(getEventConfig(['push', 'workflow_dispatch'], 'workflow_dispatch'), {});
+    assert.deepEqual(getEventConfig({ workflow_dispatch: null }, 'workflow_dispatch'), {});
+    assert.deepEqual(getEventConfig(DISPATCH_WORKFLOW_ON, 'workflow_dispatch'), DISPATCH_CONFIG);
+  });
+
+  it('returns undefined for workflows the event does not trigger', () => {
+    assert.equal(getEventConfig('push', 'workflow_dispatch'), undefined);
+    assert.equal(getEventConfig(['push'], 'workflow_dispatch'), undefined);
+    assert.equal(getEventConfig({ push: {} }, 'workflow_dispatch'), undefined);
+    assert.equal(getEventConfig(undefined, 'workflow_dispatch'), undefined);
+  });
+});
+
+describe('validateWorkflowInputs', () => {
+  it('coerces booleans from booleans and strings', () => {
+    assert.equal(validate({ 'dry-run': false })['dry-run'], false);
+    assert.equal(validate({ 'dry-run': 'true' })['dry-run'], true);
+    assert.throws(
+      () => validate({ 'dry-run': 'yes' }),
+      /Input 'dry-run' must be a boolean, got "yes"/
+    );
+  });
+
+  it('coerces numbers from numbers and numeric strings', () => {
+    assert.equal(validate({ replicas: 3 }).replicas, 3);
+    assert.equal(validate({ replicas: ' 2.5 ' }).replicas, 2.5);
+    assert.throws(() => validate({ replicas: 'three' }), /Input 'replicas' must be a number/);
+    assert.throws(() => validate({ replicas: '' }), /Input 'replicas' must be a number/);
+  });
+
+  it('accepts only the declared choices', () => {
+    assert.equal(validate({ environment: 'production' }).environment, 'production');
+    assert.throws(
+      () => validate({ environment: 'dev' }),
+      /Input 'environment' must be one of 'staging', 'production', got "dev"/
+    );
+  });
+
+  it('passes other inputs as strings', () => {
+    assert.deepEqual(validate({ message: 42, notes: true }), {
+      environment: 'staging',
+      message: '42',
+      notes: 'true',
+    });
+  });
+
+  it('requires required inputs without a default', () => {
+    assert.throws(() => validateWorkflowInputs('workflow_dispatch', DISPATCH_CONFIG, {}), {
+      message: "Invalid workflow_dispatch inputs:\nRequired input 'environment' was not provided",
+    });
+  });
+
+  it('rejects inputs the trigger does not declare, listing every problem', () => {
+    assert.throws(
+      () =>
+        validateWorkflowInputs('workflow_call', DISPATCH_CONFIG, { region: 'eu', replicas: 'x' }),
+      {
+        message: [
+          'Invalid workflow_call inputs:',
+          "Input 'region' is not declared by the workflow_call trigger",
+          "Required input 'environment' was not provided",
+          `Input 'replicas' must be a number, got "x"`,
+        ].join('\n'),
+      }
+    );
+  });
+
+  it('accepts no inputs for triggers that declare none', () => {
+    assert.deepEqual(validateWorkflowInputs('workflow_dispatch', {}, {}), {});
+  });
+});
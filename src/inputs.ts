@@ -0,0 +1,112 @@
+export type WorkflowInputValue = string | number | boolean;
+
+interface DeclaredInput {
+  type?: string;
+  required?: boolean;
+  default?: unknown;
+  options?: unknown[];
+}
+
+/**
+ * Look up the configuration of an event in a workflow's `on:` value, which may be a single event
+ * name, a list of event names or a map of event names to their configuration.
+ * Returns undefined when the workflow is not triggered by the event.
+ */
+export function getEventConfig(on: unknown, event: string): Record<string, unknown> | undefined {
+  if (typeof on === 'string') {
+    return on === event ? {} : undefined;
+  }
+
+  if (Array.isArray(on)) {
+    return on.includes(event) ? {} : undefined;
+  }
+
+  if (on && typeof on === 'object' && event in on) {
+    const config = (on as Record<string, unknown>)[event];
+    return config && typeof config === 'object' ? (config as Record<string, unknown>) : {};
+  }
+
+  return undefined;
+}
+
+type CoercedInput = { value: WorkflowInputValue } | { error: string };
+
+function coerceInput(
+  name: string,
+  declared: DeclaredInput,
+  value: WorkflowInputValue
+): CoercedInput {
+  const invalid = (expected: string) => ({
+    error: `Input '${name}' must be ${expected}, got ${JSON.stringify(value)}`,
+  });
+
+  switch (declared.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      return value === 'true' || value === 'false'
+        ? { value: value === 'true' }
+        : invalid('a boolean');
+    case 'number': {
+      if (typeof value === 'number') {
+        return Number.isFinite(value) ? { value } : invalid('a number');
+      }
+      const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? { value: number } : invalid('a number');
+    }
+    case 'choice': {
+      const options = (declared.options ?? []).map(String);
+      return options.includes(String(value))
+        ? { value: String(value) }
+        : invalid(`one of ${options.map(option => `'${option}'`).join(', ')}`);
+    }
+    default:
+      return { value: String(value) };
+  }
+}
+
+/**
+ * Check the provided inputs against the inputs declared for an event (workflow_dispatch or
+ * workflow_call) and coerce them to their declared types.
+ * Throws listing every problem when an input is unknown, missing or of the wrong type.
+ */
+export function validateWorkflowInputs(
+  event: string,
+  eventConfig: Record<string, unknown>,
+  provided: Record<string, WorkflowInputValue>
+): Record<string, WorkflowInputValue> {
+  const declaredInputs = (eventConfig.inputs ?? {}) as Record<string, DeclaredInput | null>;
+  const problems: string[] = [];
+  const inputs: Record<string, WorkflowInputValue> = {};
+
+  for (const name of Object.keys(provided)) {
+    if (!(name in declaredInputs)) {
+      problems.push(`Input '${name}' is not declared by the ${event} trigger`);
+    }
+  }
+
+  for (const [name, declaredInput] of Object.entries(declaredInputs)) {
+    const declared = declaredInput ?? {};
+
+    if (!(name in provided)) {
+      if (declared.required && declared.default === undefined) {
+        problems.push(`Required input '${name}' was not provided`);
+      }
+      continue;
+    }
+
+    const coerced = coerceInput(name, declared, provided[name]);
+    if ('error' in coerced) {
+      problems.push(coerced.error);
+    } else {
+      inputs[name] = coerced.value;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${event} inputs:\n${problems.join('\n')}`);
+  }
+
+  return inputs;
+}
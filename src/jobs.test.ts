@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getJobNeeds, selectJobs } from './jobs.js';
+
+const JOBS = {
+  lint: { 'runs-on': 'ubuntu-latest' },
+  build: { 'runs-on': 'ubuntu-latest', needs: 'lint' },
+  test: { 'runs-on': 'ubuntu-latest', needs: ['build'] },
+  docs: { 'runs-on': 'ubuntu-latest' },
+  deploy: {
+    'runs-on': 'ubuntu-latest',
+    needs: ['test', 'docs'],
+    env: { VERSION: '${{ needs.build.outputs.version }}' },
+  },
+};
+
+describe('getJobNeeds', () => {
+  it('reads needs given as a string or a list', () => {
+    assert.deepEqual(getJobNeeds(JOBS.build), ['lint']);
+    assert.deepEqual(getJobNeeds(JOBS.deploy), ['test', 'docs']);
+    assert.deepEqual(getJobNeeds(JOBS.lint), []);
+    assert.deepEqual(getJobNeeds(undefined), []);
+  });
+});
+
+describe('selectJobs', () => {
+  it('keeps the jobs the selected jobs need, transitively', () => {
+    assert.deepEqual(selectJobs(JOBS, ['test']), {
+      selected: ['test'],
+      dependencies: ['build', 'lint'],
+      removed: ['docs', 'deploy'],
+      warnings: [],
+    });
+  });
+
+  it('keeps every job when they are all needed', () => {
+    const selection = selectJobs(JOBS, ['deploy']);
+
+    assert.deepEqual(selection.dependencies, ['test', 'build', 'lint', 'docs']);
+    assert.deepEqual(selection.removed, []);
+  });
+
+  it('warns about outputs read from jobs that are not run', () => {
+    const selection = selectJobs(
+      {
+        build: { steps: [] },
+        release: {
+          env: {
+            VERSION: '${{ needs.build.outputs.version }}',
+            TAG: "${{ needs['tag'].outputs.name }}",
+          },
+        },
+      },
+      ['release']
+    );
+
+    assert.deepEqual(selection.removed, ['build']);
+    assert.equal(selection.warnings.length, 2);
+    assert.match(selection.warnings[0], /'build' is not run because it is not a dependency/);
+    assert.match(selection.warnings[1], /'tag' is not run as no such job exists/);
+  });
+
+  it('does not warn about outputs of jobs that are kept', () => {
+    assert.deepEqual(selectJobs(JOBS, ['deploy', 'build']).warnings, []);
+  });
+
+  it('rejects unknown jobs', () => {
+    assert.throws(() => selectJobs(JOBS, ['test', 'publish', 'e2e']), {
+      message: 'Unknown jobs publish, e2e. The workflow defines: lint, build, test, docs, deploy',
+    });
+  });
+});
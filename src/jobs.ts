@@ -0,0 +1,68 @@
+export interface JobSelection {
+  selected: string[];
+  // Jobs kept only because a selected job needs them, directly or transitively
+  dependencies: string[];
+  removed: string[];
+  warnings: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getJobNeeds(job: unknown): string[] {
+  const needs = isRecord(job) ? job.needs : undefined;
+  if (typeof needs === 'string') {
+    return [needs];
+  }
+  return Array.isArray(needs) ? needs.filter(need => typeof need === 'string') : [];
+}
+
+/**
+ * Find the jobs that read outputs of other jobs through `needs.<job>.outputs` or
+ * `needs['<job>'].outputs` expressions.
+ */
+function getOutputReferences(job: unknown): string[] {
+  const source = JSON.stringify(job);
+  const pattern = /needs(?:\.([\w-]+)|\[\s*\\?['"]([\w-]+)\\?['"]\s*\])\.outputs/g;
+  return [...source.matchAll(pattern)].map(match => match[1] ?? match[2]);
+}
+
+/**
+ * Select jobs to run, keeping every job they need, directly or transitively. Jobs that read the
+ * outputs of a removed job get a warning, as those outputs will be empty.
+ */
+export function selectJobs(jobs: Record<string, unknown>, selected: string[]): JobSelection {
+  const unknown = selected.filter(jobId => !(jobId in jobs));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown job${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}. The workflow defines: ${Object.keys(jobs).join(', ')}`
+    );
+  }
+
+  const kept = new Set<string>();
+  const visit = (jobId: string) => {
+    if (kept.has(jobId) || !(jobId in jobs)) {
+      return;
+    }
+    kept.add(jobId);
+    getJobNeeds(jobs[jobId]).forEach(visit);
+  };
+  selected.forEach(visit);
+
+  const warnings = [...kept].flatMap(jobId =>
+    [...new Set(getOutputReferences(jobs[jobId]))]
+      .filter(reference => !kept.has(reference))
+      .map(
+        reference =>
+          `Job '${jobId}' reads needs.${reference}.outputs, but '${reference}' is not run${reference in jobs ? ' because it is not a dependency of the selected jobs' : ' as no such job exists'}, so those outputs will be empty`
+      )
+  );
+
+  return {
+    selected,
+    dependencies: [...kept].filter(jobId => !selected.includes(jobId)),
+    removed: Object.keys(jobs).filter(jobId => !kept.has(jobId)),
+    warnings,
+  };
+}
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractFailedStepLogs, isFailedConclusion, truncateLog, type LogStep } from './logs.js';
+
+const JOB_LOG = [
+  '2024-05-01T12:00:00.1000000Z ##[group]Run actions/checkout@v4',
+  '2024-05-01T12:00:03.9000000Z Checked out',
+  '2024-05-01T12:00:04.2000000Z ##[group]Run npm test',
+  '2024-05-01T12:00:05.0000000Z FAIL src/app.test.ts',
+  '  expected 1 to equal 2',
+  '2024-05-01T12:00:06.7000000Z ##[error]Process completed with exit code 1.',
+  '2024-05-01T12:00:07.0000000Z Post job cleanup.',
+].join('\n');
+
+const step = (
+  name: string,
+  conclusion: string | null,
+  started_at: string | null,
+  completed_at: string | null
+): LogStep => ({ name, conclusion, started_at, completed_at });
+
+describe('isFailedConclusion', () => {
+  it('treats failures, timeouts and startup failures as failed', () => {
+    assert.equal(isFailedConclusion('failure'), true);
+    assert.equal(isFailedConclusion('timed_out'), true);
+    assert.equal(isFailedConclusion('startup_failure'), true);
+    assert.equal(isFailedConclusion('cancelled'), false);
+    assert.equal(isFailedConclusion(null), false);
+  });
+});
+
+describe('extractFailedStepLogs', () => {
+  it('keeps the lines logged between the start and completion of failed steps', () => {
+    const logs = extractFailedStepLogs(JOB_LOG, [
+      step('Checkout', 'success', '2024-05-01T12:00:00Z', '2024-05-01T12:00:03Z'),
+      // Step times have fractions of a second too, log lines are matched to the second
+      step('Test', 'failure', '2024-05-01T12:00:04.800Z', '2024-05-01T12:00:06.100Z'),
+    ]);
+
+    assert.equal(
+      logs,
+      [
+        '=== Step: Test (failure) ===',
+        '2024-05-01T12:00:04.2000000Z ##[group]Run npm test',
+        '2024-05-01T12:00:05.0000000Z FAIL src/app.test.ts',
+        '  expected 1 to equal 2',
+        '2024-05-01T12:00:06.7000000Z ##[error]Process completed with exit code 1.',
+      ].join('\n')
+    );
+  });
+
+  it('extracts a section for every failed step', () => {
+    const logs = extractFailedStepLogs(JOB_LOG, [
+      step('Checkout', 'timed_out', '2024-05-01T12:00:00Z', '2024-05-01T12:00:00Z'),
+      step('Cleanup', 'failure', '2024-05-01T12:00:07Z', '2024-05-01T12:00:07Z'),
+    ]);
+
+    assert.equal(
+      logs,
+      [
+        '=== Step: Checkout (timed_out) ===',
+        '2024-05-01T12:00:00.1000000Z ##[group]Run actions/checkout@v4',
+        '',
+        '=== Step: Cleanup (failure) ===',
+        '2024-05-01T12:00:07.0000000Z Post job cleanup.',
+      ].join('\n')
+    );
+  });
+
+  it('returns null without failed steps that have timestamps', () => {
+    assert.equal(
+      extractFailedStepLogs(JOB_LOG, [
+        step('Checkout', 'success', '2024-05-01T12:00:00Z', '2024-05-01T12:00:03Z'),
+        step('Test', 'failure', '2024-05-01T12:00:04Z', null),
+      ]),
+      null
+    );
+  });
+});
+
+describe('truncateLog', () => {
+  const lines = Array.from({ length: 10 }, (_, index) => `line ${index}`);
+  const logs = lines.join('\n');
+
+  it('leaves logs within the limits untouched', () => {
+    assert.deepEqual(truncateLog(logs, 1000, 10), {
+      text: logs,
+      totalBytes: 69,
+      truncated: false,
+    });
+    assert.equal(truncateLog(logs, 0, 0).truncated, false);
+  });
+
+  it('keeps the last lines', () => {
+    assert.deepEqual(truncateLog(logs, 0, 3), {
+      text: '[... 49 bytes truncated ...]\nline 7\nline 8\nline 9',
+      totalBytes: 69,
+      truncated: true,
+    });
+  });
+
+  it('keeps the last bytes, starting at a whole line', () => {
+    // The last 16 bytes are "e 7\nline 8\nline 9", the partial first line is dropped
+    assert.equal(truncateLog(logs, 16, 0).text, '[... 56 bytes truncated ...]\nline 8\nline 9');
+  });
+
+  it('applies the byte limit to the last lines', () => {
+    assert.equal(truncateLog(logs, 10, 5).text, '[... 63 bytes truncated ...]\nline 9');
+  });
+
+  it('keeps the first line when the limit falls on a line break', () => {
+    assert.equal(truncateLog(logs, 13, 0).text, '[... 56 bytes truncated ...]\nline 8\nline 9');
+  });
+
+  it('counts bytes, not characters', () => {
+    const result = truncateLog('héllo\n'.repeat(4), 14, 0);
+
+    assert.equal(result.totalBytes, 28);
+    assert.equal(result.text, '[... 14 bytes truncated ...]\nhéllo\nhéllo\n');
+  });
+});
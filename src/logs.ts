@@ -0,0 +1,113 @@
+export interface LogOptions {
+  maxBytes: number;
+  tailLines: number;
+  failedJobsOnly: boolean;
+  failedStepsOnly: boolean;
+}
+
+export interface LogStep {
+  name: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface ProcessedLog {
+  text: string;
+  totalBytes: number;
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_LOG_BYTES = 50000;
+
+const FAILED_CONCLUSIONS = new Set(['failure', 'timed_out', 'startup_failure']);
+
+// Every line of a job log starts with an ISO timestamp, e.g. "2024-05-01T12:34:56.1234567Z ..."
+const LOG_TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.\d+)?Z /;
+
+export function isFailedConclusion(conclusion: string | null | undefined): boolean {
+  return !!conclusion && FAILED_CONCLUSIONS.has(conclusion);
+}
+
+function toEpochSeconds(timestamp: string): number {
+  return Math.floor(Date.parse(timestamp) / 1000);
+}
+
+/**
+ * Slice the sections of a job log that belong to its failed steps.
+ *
+ * The log has no machine-readable step markers, so the step boundaries are taken from the
+ * steps' start and completion times (second precision) and matched against the timestamp
+ * prefix of each log line. Returns null when no failed step has usable timestamps.
+ */
+export function extractFailedStepLogs(logs: string, steps: LogStep[]): string | null {
+  const failedSteps = steps.filter(
+    step => isFailedConclusion(step.conclusion) && step.started_at && step.completed_at
+  );
+  if (failedSteps.length === 0) {
+    return null;
+  }
+
+  const lines = logs.split('\n');
+  const sections: string[] = [];
+
+  for (const step of failedSteps) {
+    const start = toEpochSeconds(step.started_at!);
+    const end = toEpochSeconds(step.completed_at!);
+    const stepLines: string[] = [];
+    let inStep = false;
+
+    for (const line of lines) {
+      const match = LOG_TIMESTAMP_PATTERN.exec(line);
+      if (match) {
+        const lineTime = toEpochSeconds(`${match[1]}Z`);
+        inStep = lineTime >= start && lineTime <= end;
+      }
+      // Lines without a timestamp continue the previous line
+      if (inStep) {
+        stepLines.push(line);
+      }
+    }
+
+    sections.push(`=== Step: ${step.name} (${step.conclusion}) ===\n${stepLines.join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Keep the end of a log, where failures are usually reported, within the line and byte limits.
+ * A limit of 0 disables it.
+ */
+export function truncateLog(logs: string, maxBytes: number, tailLines: number): ProcessedLog {
+  const totalBytes = Buffer.byteLength(logs);
+  let text = logs;
+  let truncated = false;
+
+  if (tailLines > 0) {
+    const lines = text.split('\n');
+    if (lines.length > tailLines) {
+      text = lines.slice(-tailLines).join('\n');
+      truncated = true;
+    }
+  }
+
+  const buffer = Buffer.from(text);
+  if (maxBytes > 0 && buffer.length > maxBytes) {
+    const start = buffer.length - maxBytes;
+    text = buffer.subarray(start).toString('utf-8');
+    // Drop the leading partial line so the output starts cleanly
+    const firstNewline = buffer[start - 1] === 0x0a ? -1 : text.indexOf('\n');
+    if (firstNewline !== -1) {
+      text = text.slice(firstNewline + 1);
+    }
+    truncated = true;
+  }
+
+  if (truncated) {
+    const omittedBytes = totalBytes - Buffer.byteLength(text);
+    text = `[... ${omittedBytes} bytes truncated ...]\n${text}`;
+  }
+
+  return { text, totalBytes, truncated };
+}
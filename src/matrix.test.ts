@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as YAML from 'yaml';
+import {
+  expandMatrix,
+  filterMatrixCombinations,
+  getJobMatrices,
+  getMatrixJobName,
+  type JobMatrix,
+} from './matrix.js';
+
+describe('expandMatrix', () => {
+  it('expands the cartesian product of the matrix keys', () => {
+    assert.deepEqual(expandMatrix({ os: ['ubuntu-latest', 'windows-latest'], node: [18, 20] }), [
+      { os: 'ubuntu-latest', node: 18 },
+      { os: 'ubuntu-latest', node: 20 },
+      { os: 'windows-latest', node: 18 },
+      { os: 'windows-latest', node: 20 },
+    ]);
+  });
+
+  it('removes excluded combinations, matching partial entries', () => {
+    assert.deepEqual(
+      expandMatrix({
+        os: ['ubuntu-latest', 'windows-latest'],
+        node: [18, 20],
+        exclude: [
+          { os: 'windows-latest', node: 18 },
+          { node: 20, os: 'ubuntu-latest' },
+        ],
+      }),
+      [
+        { os: 'ubuntu-latest', node: 18 },
+        { os: 'windows-latest', node: 20 },
+      ]
+    );
+  });
+
+  it('merges includes into combinations they do not overwrite and adds the others', () => {
+    // The example from GitHub's documentation on expanding or adding matrix configurations
+    assert.deepEqual(
+      expandMatrix({
+        fruit: ['apple', 'pear'],
+        animal: ['cat', 'dog'],
+        include: [
+          { color: 'green' },
+          { color: 'pink', animal: 'cat' },
+          { fruit: 'apple', shape: 'circle' },
+          { fruit: 'banana' },
+          { fruit: 'banana', animal: 'cat' },
+        ],
+      }),
+      [
+        { fruit: 'apple', animal: 'cat', color: 'pink', shape: 'circle' },
+        { fruit: 'apple', animal: 'dog', color: 'green', shape: 'circle' },
+        { fruit: 'pear', animal: 'cat', color: 'pink' },
+        { fruit: 'pear', animal: 'dog', color: 'green' },
+        { fruit: 'banana' },
+        { fruit: 'banana', animal: 'cat' },
+      ]
+    );
+  });
+
+  it('expands a matrix of includes only', () => {
+    assert.deepEqual(expandMatrix({ include: [{ os: 'linux' }, { os: 'macos' }] }), [
+      { os: 'linux' },
+      { os: 'macos' },
+    ]);
+  });
+
+  it('returns undefined for matrices resolved at run time', () => {
+    assert.equal(expandMatrix('${{ fromJSON(needs.setup.outputs.matrix) }}'), undefined);
+    assert.equal(expandMatrix({ os: '${{ fromJSON(inputs.os) }}' }), undefined);
+    assert.equal(expandMatrix({ os: ['linux'], include: '${{ inputs.extra }}' }), undefined);
+  });
+});
+
+describe('getJobMatrices', () => {
+  it('finds the jobs with a static matrix', () => {
+    const workflow = YAML.parse(`jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    name: Test on \${{ matrix.os }}
+    strategy:
+      matrix:
+        os: [linux, macos]
+  dynamic:
+    strategy:
+      matrix: \${{ fromJSON(needs.setup.outputs.matrix) }}
+`);
+
+    assert.deepEqual(getJobMatrices(workflow), [
+      {
+        jobId: 'test',
+        nameTemplate: 'Test on ${{ matrix.os }}',
+        combinations: [{ os: 'linux' }, { os: 'macos' }],
+      },
+    ]);
+  });
+});
+
+describe('getMatrixJobName', () => {
+  const jobMatrix = (nameTemplate?: string): JobMatrix => ({
+    jobId: 'test',
+    nameTemplate,
+    combinations: [],
+  });
+
+  it('appends the combination values to names without expressions', () => {
+    assert.equal(
+      getMatrixJobName(jobMatrix(), { os: 'ubuntu-latest', node: 20 }),
+      'test (ubuntu-latest, 20)'
+    );
+    assert.equal(
+      getMatrixJobName(jobMatrix('Unit tests'), { config: { debug: true } }),
+      'Unit tests ({"debug":true})'
+    );
+  });
+
+  it('renders names that reference the matrix', () => {
+    assert.equal(
+      getMatrixJobName(jobMatrix('Node ${{ matrix.node }} on ${{matrix.os}}'), {
+        os: 'macos',
+        node: 20,
+      }),
+      'Node 20 on macos'
+    );
+  });
+
+  it('returns undefined for names that depend on anything but the matrix', () => {
+    assert.equal(
+      getMatrixJobName(jobMatrix('Test ${{ inputs.suite }}'), { os: 'linux' }),
+      undefined
+    );
+    assert.equal(
+      getMatrixJobName(jobMatrix('Test ${{ matrix.node }}'), { os: 'linux' }),
+      undefined
+    );
+  });
+});
+
+describe('filterMatrixCombinations', () => {
+  const combinations = [
+    { os: 'ubuntu-latest', node: 18 },
+    { os: 'ubuntu-latest', node: 20 },
+    { os: 'windows-latest', node: 20 },
+  ];
+
+  it('keeps the combinations matching every filtered value, comparing as strings', () => {
+    assert.deepEqual(filterMatrixCombinations(combinations, { os: 'ubuntu-latest', node: '20' }), [
+      { os: 'ubuntu-latest', node: 20 },
+    ]);
+    assert.deepEqual(filterMatrixCombinations(combinations, { node: 20 }), combinations.slice(1));
+  });
+
+  it('ignores keys the combinations do not have', () => {
+    assert.deepEqual(
+      filterMatrixCombinations([...combinations, { os: 'macos-latest' }], { node: 18 }),
+      [{ os: 'ubuntu-latest', node: 18 }, { os: 'macos-latest' }]
+    );
+  });
+
+  it('returns no combinations when nothing matches', () => {
+    assert.deepEqual(filterMatrixCombinations(combinations, { os: 'macos-latest' }), []);
+  });
+});
@@ -0,0 +1,149 @@
+export type MatrixValue = string | number | boolean;
+export type MatrixCombination = Record<string, unknown>;
+
+export interface JobMatrix {
+  jobId: string;
+  nameTemplate?: string;
+  combinations: MatrixCombination[];
+}
+
+const EXPRESSION_PATTERN = /\$\{\{\s*(.*?)\s*\}\}/g;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatMatrixValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Expand a `strategy.matrix` into its combinations, following GitHub's rules: the cartesian product
+ * of the matrix keys, minus `exclude` entries, then each `include` entry is merged into every
+ * combination whose original values it does not overwrite, or added as a new combination.
+ *
+ * Returns undefined for matrices GitHub only resolves at run time, e.g. `${{ fromJSON(...) }}`.
+ */
+export function expandMatrix(matrix: unknown): MatrixCombination[] | undefined {
+  if (!isRecord(matrix)) {
+    return undefined;
+  }
+
+  const { include = [], exclude = [], ...dimensions } = matrix;
+  if (
+    !Array.isArray(include) ||
+    !Array.isArray(exclude) ||
+    Object.values(dimensions).some(values => !Array.isArray(values))
+  ) {
+    return undefined;
+  }
+
+  let combinations: MatrixCombination[] = Object.keys(dimensions).length > 0 ? [{}] : [];
+  for (const [key, values] of Object.entries(dimensions) as [string, unknown[]][]) {
+    combinations = combinations.flatMap(combination =>
+      values.map(value => ({ ...combination, [key]: value }))
+    );
+  }
+
+  combinations = combinations.filter(
+    combination =>
+      !exclude.some(
+        entry =>
+          isRecord(entry) &&
+          Object.entries(entry).every(([key, value]) => valuesEqual(combination[key], value))
+      )
+  );
+
+  const originalCount = combinations.length;
+  for (const entry of include) {
+    if (!isRecord(entry)) {
+      continue;
+    }
+    let merged = false;
+    for (const combination of combinations.slice(0, originalCount)) {
+      const overwritesOriginal = Object.entries(entry).some(
+        ([key, value]) => key in dimensions && !valuesEqual(combination[key], value)
+      );
+      if (!overwritesOriginal) {
+        Object.assign(combination, entry);
+        merged = true;
+      }
+    }
+    if (!merged) {
+      combinations.push({ ...entry });
+    }
+  }
+
+  return combinations;
+}
+
+/**
+ * Find the jobs of a workflow that use a matrix we can expand statically.
+ */
+export function getJobMatrices(workflow: unknown): JobMatrix[] {
+  const jobs = isRecord(workflow) && isRecord(workflow.jobs) ? workflow.jobs : {};
+
+  return Object.entries(jobs).flatMap(([jobId, job]) => {
+    if (!isRecord(job) || !isRecord(job.strategy)) {
+      return [];
+    }
+    const combinations = expandMatrix(job.strategy.matrix);
+    return combinations
+      ? [
+          {
+            jobId,
+            nameTemplate: typeof job.name === 'string' ? job.name : undefined,
+            combinations,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * The name GitHub gives the job for one matrix combination. Names that reference the matrix are
+ * rendered, otherwise the combination's values are appended, e.g. "test (ubuntu-latest, 20)".
+ * Returns undefined when the name depends on anything but the matrix.
+ */
+export function getMatrixJobName(
+  jobMatrix: JobMatrix,
+  combination: MatrixCombination
+): string | undefined {
+  const template = jobMatrix.nameTemplate ?? jobMatrix.jobId;
+  const label = Object.values(combination).map(formatMatrixValue).join(', ');
+
+  if (!template.includes('${{')) {
+    return `${template} (${label})`;
+  }
+
+  let resolvable = true;
+  const rendered = template.replace(EXPRESSION_PATTERN, (_expression, body: string) => {
+    const match = /^matrix\.([\w-]+)$/.exec(body);
+    if (!match || !(match[1] in combination)) {
+      resolvable = false;
+      return '';
+    }
+    return formatMatrixValue(combination[match[1]]);
+  });
+  return resolvable ? rendered : undefined;
+}
+
+/**
+ * Narrow combinations to those whose values match the filter. Keys the combinations do not have
+ * are ignored, and values are compared as strings so `20` matches `"20"`.
+ */
+export function filterMatrixCombinations(
+  combinations: MatrixCombination[],
+  filter: Record<string, MatrixValue>
+): MatrixCombination[] {
+  return combinations.filter(combination =>
+    Object.entries(filter).every(
+      ([key, value]) =>
+        !(key in combination) || formatMatrixValue(combination[key]) === String(value)
+    )
+  );
+}
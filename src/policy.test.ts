@@ -0,0 +1,276 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  checkExtraFilePolicy,
+  checkWorkflowPolicy,
+  DEFAULT_ALLOWED_WRITE_PERMISSIONS,
+  DEFAULT_TRUSTED_ACTION_OWNERS,
+  type PolicyFinding,
+  type SecurityPolicy,
+} from './policy.js';
+
+const POLICY: SecurityPolicy = {
+  mode: 'enforce',
+  trustedActionOwners: DEFAULT_TRUSTED_ACTION_OWNERS,
+  allowedWritePermissions: DEFAULT_ALLOWED_WRITE_PERMISSIONS,
+};
+
+const PINNED_SHA = 'b4ffde65f46336ab88eb53be808477a3936bae11';
+
+const summarize = (findings: PolicyFinding[]) =>
+  findings.map(({ rule, severity, path }) => ({ rule, severity, path }));
+
+describe('checkWorkflowPolicy', () => {
+  it('requires actions from untrusted owners to be pinned to a commit SHA', () => {
+    const findings = checkWorkflowPolicy(
+      `on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - uses: ./.github/actions/setup
+      - uses: octo/setup@v1
+      - uses: octo/setup@${PINNED_SHA}
+      - uses: docker://alpine:3.20
+      - uses: docker://alpine@sha256:${'a'.repeat(64)}
+  reuse:
+    uses: octo/workflows/.github/workflows/ci.yml@main
+`,
+      POLICY
+    );
+
+    assert.deepEqual(summarize(findings), [
+      { rule: 'unpinned-action', severity: 'error', path: '/jobs/build/steps/2/uses' },
+      { rule: 'unpinned-action', severity: 'error', path: '/jobs/build/steps/4/uses' },
+      { rule: 'unpinned-action', severity: 'error', path: '/jobs/reuse/uses' },
+    ]);
+    assert.deepEqual(findings[0].location, { line: 8, column: 15 });
+  });
+
+  it('trusts every owner with *', () => {
+    const findings = checkWorkflowPolicy(
+      'on: push\njobs:\n  build:\n    steps:\n      - uses: octo/setup@v1\n',
+      { ...POLICY, trustedActionOwners: ['*'] }
+    );
+
+    assert.deepEqual(findings, []);
+  });
+
+  it('rejects write-all permissions', () => {
+    const findings = checkWorkflowPolicy(
+      'on: push\npermissions: write-all\njobs:\n  build:\n    permissions: write-all\n',
+      POLICY
+    );
+
+    assert.deepEqual(summarize(findings), [
+      { rule: 'broad-permissions', severity: 'error', path: '/permissions' },
+      { rule: 'broad-permissions', severity: 'error', path: '/jobs/build/permissions' },
+    ]);
+  });
+
+  it('rejects write access to scopes outside the allowed write permissions', () => {
+    const workflow = `on: push
+permissions:
+  contents: write
+  pull-requests: write
+jobs:
+  deploy:
+    permissions:
+      id-token: write
+      packages: read
+`;
+
+    assert.deepEqual(summarize(checkWorkflowPolicy(workflow, POLICY)), [
+      { rule: 'broad-permissions', severity: 'error', path: '/permissions/contents' },
+      { rule: 'broad-permissions', severity: 'error', path: '/jobs/deploy/permissions/id-token' },
+    ]);
+    assert.deepEqual(
+      checkWorkflowPolicy(workflow, {
+        ...POLICY,
+        allowedWritePermissions: ['contents', 'pull-requests', 'id-token'],
+      }),
+      []
+    );
+    assert.deepEqual(
+      checkWorkflowPolicy(workflow, { ...POLICY, allowedWritePermissions: ['*'] }),
+      []
+    );
+  });
+
+  it('rejects secrets outside the allowed secrets', () => {
+    const findings = checkWorkflowPolicy(
+      `on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    if: secrets.DEPLOY_KEY != ''
+    env:
+      TOKEN: \${{ secrets.NPM_TOKEN }}
+      GITHUB: \${{ secrets.github_token }}
+      ALL: \${{ toJSON(secrets) }}
+    steps:
+      - run: echo \${{ secrets['OTHER'] }}
+  reuse:
+    uses: ./.github/workflows/deploy.yml
+    secrets: inherit
+`,
+      { ...POLICY, allowedSecrets: ['NPM_TOKEN'] }
+    );
+
+    assert.deepEqual(summarize(findings), [
+      { rule: 'disallowed-secret', severity: 'error', path: '/jobs/reuse/secrets' },
+      { rule: 'disallowed-secret', severity: 'error', path: '/jobs/build/if' },
+      { rule: 'disallowed-secret', severity: 'error', path: '/jobs/build/env/ALL' },
+      { rule: 'disallowed-secret', severity: 'error', path: '/jobs/build/steps/0/run' },
+    ]);
+    assert.match(findings[2].message, /toJSON\(secrets\)/);
+  });
+
+  it('allows any secret without allowed secrets', () => {
+    const findings = checkWorkflowPolicy(
+      `on: push
+jobs:
+  build:
+    env:
+      ALL: \${{ toJSON(secrets) }}
+  reuse:
+    uses: ./.github/workflows/deploy.yml
+    secrets: inherit
+`,
+      POLICY
+    );
+
+    assert.deepEqual(findings, []);
+  });
+
+  it('rejects runner labels outside the allowed runner labels', () => {
+    const findings = checkWorkflowPolicy(
+      `on: push
+jobs:
+  build:
+    runs-on: [self-hosted, gpu]
+  test:
+    strategy:
+      matrix:
+        os: [ubuntu-latest, macos-latest]
+    runs-on: \${{ matrix.os }}
+  dynamic:
+    runs-on: \${{ inputs.runner }}
+  group:
+    runs-on:
+      group: large-runners
+      labels: ubuntu-latest
+`,
+      { ...POLICY, allowedRunnerLabels: ['ubuntu-latest', 'self-hosted'] }
+    );
+
+    assert.deepEqual(
+      findings.map(({ path, message }) => ({ path, message: message.split(',')[0] })),
+      [
+        { path: '/jobs/build/runs-on', message: "Job 'build' runs on 'gpu'" },
+        { path: '/jobs/test/runs-on', message: "Job 'test' runs on 'macos-latest'" },
+        { path: '/jobs/dynamic/runs-on', message: "Job 'dynamic' runs on '${{ inputs.runner }}'" },
+        { path: '/jobs/group/runs-on', message: "Job 'group' runs on 'large-runners'" },
+      ]
+    );
+  });
+
+  it('warns about scripts piped from the network into a shell', () => {
+    const findings = checkWorkflowPolicy(
+      `on: push
+jobs:
+  build:
+    steps:
+      - run: curl -sSL https://example.com/install.sh | sudo bash
+      - run: curl -sSL -o install.sh https://example.com/install.sh
+`,
+      POLICY
+    );
+
+    assert.deepEqual(summarize(findings), [
+      { rule: 'remote-script-execution', severity: 'warning', path: '/jobs/build/steps/0/run' },
+    ]);
+  });
+
+  it('checks nothing when the policy is off', () => {
+    const findings = checkWorkflowPolicy(
+      'on: push\npermissions: write-all\njobs:\n  build:\n    steps:\n      - uses: octo/setup@v1\n',
+      { ...POLICY, mode: 'off' }
+    );
+
+    assert.deepEqual(findings, []);
+  });
+});
+
+describe('checkExtraFilePolicy', () => {
+  it('checks the steps and image of local actions', () => {
+    const composite = checkExtraFilePolicy(
+      '.github/actions/setup/action.yml',
+      `runs:
+  using: composite
+  steps:
+    - uses: octo/setup@v1
+    - run: wget -qO- https://example.com/install.sh | sh
+      shell: bash
+`,
+      POLICY
+    );
+    const docker = checkExtraFilePolicy(
+      'tools/action.yaml',
+      'runs:\n  using: docker\n  image: docker://octo/tool:latest\n',
+      POLICY
+    );
+
+    assert.deepEqual(
+      [...composite, ...docker].map(({ rule, file, path }) => ({ rule, file, path })),
+      [
+        {
+          rule: 'unpinned-action',
+          file: '.github/actions/setup/action.yml',
+          path: '/runs/steps/0/uses',
+        },
+        {
+          rule: 'remote-script-execution',
+          file: '.github/actions/setup/action.yml',
+          path: '/runs/steps/1/run',
+        },
+        { rule: 'unpinned-action', file: 'tools/action.yaml', path: '/runs/image' },
+      ]
+    );
+  });
+
+  it('checks other workflows like the submitted workflow', () => {
+    const findings = checkExtraFilePolicy(
+      '.github/workflows/deploy.yml',
+      'on: workflow_call\npermissions:\n  contents: write\n',
+      POLICY
+    );
+
+    assert.deepEqual(
+      findings.map(({ rule, file, path }) => ({ rule, file, path })),
+      [
+        {
+          rule: 'broad-permissions',
+          file: '.github/workflows/deploy.yml',
+          path: '/permissions/contents',
+        },
+      ]
+    );
+  });
+
+  it('reports files that cannot be parsed', () => {
+    const [finding] = checkExtraFilePolicy('action.yml', 'runs: [unclosed', POLICY);
+
+    assert.equal(finding.rule, 'unparsable-file');
+    assert.equal(finding.file, 'action.yml');
+  });
+
+  it('ignores files that are neither workflows nor actions', () => {
+    assert.deepEqual(checkExtraFilePolicy('scripts/config.yml', 'uses: octo/setup@v1', POLICY), []);
+    assert.deepEqual(
+      checkExtraFilePolicy('.github/workflows/README.md', 'permissions: write-all', POLICY),
+      []
+    );
+  });
+});
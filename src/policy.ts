@@ -0,0 +1,406 @@
+import * as YAML from 'yaml';
+import { expandMatrix } from './matrix.js';
+import { locatePath, type SourceLocation } from './validation.js';
+
+export type PolicyMode = 'off' | 'warn' | 'enforce';
+
+export interface SecurityPolicy {
+  // off skips the checks, warn reports findings, enforce also rejects workflows with errors
+  mode: PolicyMode;
+  // Owners whose actions may be referenced by tag or branch. Others must be pinned to a commit SHA
+  trustedActionOwners: string[];
+  // Token permission scopes workflows may grant write access to, or '*' to allow any
+  allowedWritePermissions: string[];
+  // Secrets workflows may reference, or undefined to allow any
+  allowedSecrets?: string[];
+  // Labels jobs may run on, or undefined to allow any
+  allowedRunnerLabels?: string[];
+}
+
+export interface PolicyFinding {
+  rule:
+    | 'unpinned-action'
+    | 'broad-permissions'
+    | 'disallowed-secret'
+    | 'disallowed-runner'
+    | 'remote-script-execution'
+    | 'unparsable-file';
+  severity: 'error' | 'warning';
+  message: string;
+  // Repository path of the extra file the finding is in, unset for the submitted workflow
+  file?: string;
+  // JSON pointer to the offending node, e.g. "/jobs/build/steps/0/uses"
+  path: string;
+  location?: SourceLocation;
+}
+
+type Report = (
+  rule: PolicyFinding['rule'],
+  severity: PolicyFinding['severity'],
+  segments: (string | number)[],
+  message: string
+) => void;
+
+export const DEFAULT_TRUSTED_ACTION_OWNERS = ['actions', 'github'];
+// Scopes that let a workflow report on the code, but not change it, publish or deploy
+export const DEFAULT_ALLOWED_WRITE_PERMISSIONS = ['checks', 'issues', 'pull-requests', 'statuses'];
+
+// Always available to workflows, whatever the allowed secrets
+const BUILT_IN_SECRETS = ['GITHUB_TOKEN'];
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+const EXPRESSION_PATTERN = /\$\{\{([\s\S]*?)\}\}/g;
+const SECRET_REFERENCE_PATTERN =
+  /\bsecrets\s*(?:\.\s*([A-Za-z_][A-Za-z0-9_]*)|\[\s*'([^']+)'\s*\]|\[\s*"([^"]+)"\s*\])/g;
+const MATRIX_LABEL_PATTERN = /^\$\{\{\s*matrix\.([\w-]+)\s*\}\}$/;
+const WORKFLOW_FILE_PATTERN = /^\.github\/workflows\/.+\.ya?ml$/;
+const ACTION_FILE_PATTERN = /(?:^|\/)action\.ya?ml$/;
+
+// Scripts downloaded and executed in one go, e.g. `curl -sSL https://... | sh`
+const REMOTE_SCRIPT_PATTERNS = [
+  /\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+(?:-\S+\s+)*)?(?:ba|z|da|k)?sh\b/,
+  /\b(?:curl|wget)\b[^\n|]*\|\s*(?:sudo\s+(?:-\S+\s+)*)?(?:python3?|perl|ruby|node)\b/,
+  /\b(?:ba|z|da|k)?sh\s+(?:-c\s+)?["']?(?:<\(|\$\()\s*(?:curl|wget)\b/,
+  /\b(?:iwr|irm|Invoke-WebRequest|Invoke-RestMethod)\b[^\n]*\|\s*(?:iex|Invoke-Expression)\b/i,
+  /\b(?:iex|Invoke-Expression)\b[^\n]*\b(?:iwr|irm|Invoke-WebRequest|Invoke-RestMethod|DownloadString)\b/i,
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toPointer(segments: (string | number)[]): string {
+  return segments
+    .map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+/**
+ * Call `visit` for every string in a parsed workflow, with the path of keys leading to it.
+ */
+function visitStrings(
+  value: unknown,
+  segments: (string | number)[],
+  visit: (text: string, segments: (string | number)[]) => void
+): void {
+  if (typeof value === 'string') {
+    visit(value, segments);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => visitStrings(item, [...segments, index], visit));
+  } else if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      visitStrings(item, [...segments, key], visit);
+    }
+  }
+}
+
+function checkActionReference(uses: string, trustedOwners: string[]): string | undefined {
+  if (uses.startsWith('./')) {
+    return undefined;
+  }
+
+  if (uses.startsWith('docker://')) {
+    return uses.includes('@sha256:')
+      ? undefined
+      : `Docker action '${uses}' must be pinned to an image digest (@sha256:...)`;
+  }
+
+  const [action, ref = ''] = uses.split('@');
+  const owner = action.split('/')[0].toLowerCase();
+  if (
+    COMMIT_SHA_PATTERN.test(ref) ||
+    trustedOwners.some(trusted => trusted === '*' || trusted.toLowerCase() === owner)
+  ) {
+    return undefined;
+  }
+  return `Action '${uses}' must be pinned to a full commit SHA, as its owner '${owner}' is not trusted`;
+}
+
+function getRunnerLabels(runsOn: unknown, matrix: unknown): string[] {
+  const labels = isRecord(runsOn)
+    ? [
+        ...(typeof runsOn.group === 'string' ? [runsOn.group] : []),
+        ...[runsOn.labels].flat().filter(label => typeof label === 'string'),
+      ]
+    : [runsOn].flat().filter(label => typeof label === 'string');
+
+  // Labels taken from the matrix are checked against every value the matrix gives them
+  return labels.flatMap(label => {
+    const key = MATRIX_LABEL_PATTERN.exec(label)?.[1];
+    const combinations = key ? expandMatrix(matrix) : undefined;
+    return key && combinations
+      ? [...new Set(combinations.map(combination => String(combination[key])))]
+      : [label];
+  });
+}
+
+function getSecretReferences(text: string, isExpression: boolean): string[] {
+  const expressions = isExpression
+    ? [text]
+    : [...text.matchAll(EXPRESSION_PATTERN)].map(match => match[1]);
+
+  return expressions.flatMap(expression => [
+    ...[...expression.matchAll(SECRET_REFERENCE_PATTERN)].map(
+      match => match[1] ?? match[2] ?? match[3]
+    ),
+    // toJSON(secrets) exposes every secret at once
+    ...(/\btoJSON\s*\(\s*secrets\s*\)/i.test(expression) ? ['*'] : []),
+  ]);
+}
+
+/**
+ * Check the steps of a job or composite action: actions must be pinned or come from trusted
+ * owners, and scripts piped from the network into a shell are flagged.
+ */
+function checkSteps(
+  steps: unknown,
+  segments: (string | number)[],
+  describe: (index: number) => string,
+  policy: SecurityPolicy,
+  report: Report
+): void {
+  (Array.isArray(steps) ? steps : []).forEach((step, index) => {
+    if (!isRecord(step)) {
+      return;
+    }
+    if (typeof step.uses === 'string') {
+      const problem = checkActionReference(step.uses, policy.trustedActionOwners);
+      if (problem) {
+        report('unpinned-action', 'error', [...segments, index, 'uses'], problem);
+      }
+    }
+    if (
+      typeof step.run === 'string' &&
+      REMOTE_SCRIPT_PATTERNS.some(pattern => pattern.test(step.run as string))
+    ) {
+      report(
+        'remote-script-execution',
+        'warning',
+        [...segments, index, 'run'],
+        `${describe(index)} runs a script downloaded from the network without verifying it`
+      );
+    }
+  });
+}
+
+/**
+ * Check the token permissions granted by a workflow or job: write-all is never allowed, and write
+ * access only to the allowed scopes.
+ */
+function checkPermissions(
+  permissions: unknown,
+  segments: (string | number)[],
+  subject: string,
+  policy: SecurityPolicy,
+  report: Report
+): void {
+  if (permissions === 'write-all') {
+    report(
+      'broad-permissions',
+      'error',
+      segments,
+      `${subject} permissions 'write-all' are not allowed, grant only the permissions needed`
+    );
+    return;
+  }
+  if (!isRecord(permissions) || policy.allowedWritePermissions.includes('*')) {
+    return;
+  }
+
+  for (const [scope, level] of Object.entries(permissions)) {
+    if (level === 'write' && !policy.allowedWritePermissions.includes(scope)) {
+      report(
+        'broad-permissions',
+        'error',
+        [...segments, scope],
+        `${subject} grants '${scope}: write', which is not an allowed write permission (allowed: ${policy.allowedWritePermissions.join(', ') || 'none'})`
+      );
+    }
+  }
+}
+
+function checkJobs(workflow: unknown, policy: SecurityPolicy, report: Report): void {
+  const jobs = isRecord(workflow) && isRecord(workflow.jobs) ? workflow.jobs : {};
+
+  if (isRecord(workflow)) {
+    checkPermissions(workflow.permissions, ['permissions'], 'Workflow', policy, report);
+  }
+
+  for (const [jobId, job] of Object.entries(jobs)) {
+    if (!isRecord(job)) {
+      continue;
+    }
+
+    checkPermissions(
+      job.permissions,
+      ['jobs', jobId, 'permissions'],
+      `Job '${jobId}'`,
+      policy,
+      report
+    );
+
+    // Reusable workflows called by the job
+    if (typeof job.uses === 'string') {
+      const problem = checkActionReference(job.uses, policy.trustedActionOwners);
+      if (problem) {
+        report('unpinned-action', 'error', ['jobs', jobId, 'uses'], problem);
+      }
+      if (job.secrets === 'inherit' && policy.allowedSecrets) {
+        report(
+          'disallowed-secret',
+          'error',
+          ['jobs', jobId, 'secrets'],
+          `Job '${jobId}' passes every secret to '${job.uses}' with 'secrets: inherit', which bypasses the allowed secrets`
+        );
+      }
+    }
+
+    if (policy.allowedRunnerLabels && job['runs-on'] !== undefined) {
+      const matrix = isRecord(job.strategy) ? job.strategy.matrix : undefined;
+      for (const label of getRunnerLabels(job['runs-on'], matrix)) {
+        if (label.includes('${{')) {
+          report(
+            'disallowed-runner',
+            'error',
+            ['jobs', jobId, 'runs-on'],
+            `Job '${jobId}' runs on '${label}', which cannot be checked against the allowed runner labels`
+          );
+        } else if (!policy.allowedRunnerLabels.includes(label)) {
+          report(
+            'disallowed-runner',
+            'error',
+            ['jobs', jobId, 'runs-on'],
+            `Job '${jobId}' runs on '${label}', which is not an allowed runner label (${policy.allowedRunnerLabels.join(', ')})`
+          );
+        }
+      }
+    }
+
+    checkSteps(
+      job.steps,
+      ['jobs', jobId, 'steps'],
+      index => `Step ${index + 1} of job '${jobId}'`,
+      policy,
+      report
+    );
+  }
+}
+
+function checkActionRuns(action: unknown, policy: SecurityPolicy, report: Report): void {
+  const runs = isRecord(action) && isRecord(action.runs) ? action.runs : {};
+
+  // Docker actions may run a published image instead of building their Dockerfile
+  if (typeof runs.image === 'string' && runs.image.startsWith('docker://')) {
+    const problem = checkActionReference(runs.image, policy.trustedActionOwners);
+    if (problem) {
+      report('unpinned-action', 'error', ['runs', 'image'], problem);
+    }
+  }
+
+  checkSteps(
+    runs.steps,
+    ['runs', 'steps'],
+    index => `Step ${index + 1} of the action`,
+    policy,
+    report
+  );
+}
+
+function checkSecretReferences(document: unknown, policy: SecurityPolicy, report: Report): void {
+  if (!policy.allowedSecrets) {
+    return;
+  }
+
+  const allowed = [...BUILT_IN_SECRETS, ...policy.allowedSecrets];
+  // Secret names are case-insensitive
+  const allowedNames = allowed.map(secret => secret.toUpperCase());
+  visitStrings(document, [], (text, segments) => {
+    // `if:` conditions are expressions even without ${{ }}
+    const isExpression = segments[segments.length - 1] === 'if';
+    for (const secret of new Set(getSecretReferences(text, isExpression))) {
+      if (secret === '*') {
+        report(
+          'disallowed-secret',
+          'error',
+          segments,
+          'toJSON(secrets) exposes every secret, which bypasses the allowed secrets'
+        );
+      } else if (!allowedNames.includes(secret.toUpperCase())) {
+        report(
+          'disallowed-secret',
+          'error',
+          segments,
+          `Secret '${secret}' is not allowed (allowed secrets: ${allowed.join(', ')})`
+        );
+      }
+    }
+  });
+}
+
+function checkPolicy(
+  content: string,
+  policy: SecurityPolicy,
+  check: (document: unknown, policy: SecurityPolicy, report: Report) => void
+): PolicyFinding[] {
+  if (policy.mode === 'off') {
+    return [];
+  }
+
+  const document = YAML.parse(content);
+  const findings: Omit<PolicyFinding, 'location'>[] = [];
+  const report: Report = (rule, severity, segments, message) =>
+    findings.push({ rule, severity, message, path: toPointer(segments) });
+
+  check(document, policy, report);
+  checkSecretReferences(document, policy, report);
+
+  return findings.map(finding => ({
+    ...finding,
+    location: locatePath(content, finding.path),
+  }));
+}
+
+/**
+ * Check a workflow against the security policy: actions must be pinned or come from trusted
+ * owners, write access is only granted to the allowed scopes, secrets and runner labels must be
+ * allowed, and scripts piped from the network into a shell are flagged.
+ */
+export function checkWorkflowPolicy(
+  workflowContent: string,
+  policy: SecurityPolicy
+): PolicyFinding[] {
+  return checkPolicy(workflowContent, policy, checkJobs);
+}
+
+/**
+ * Check an extra file committed alongside the workflow. Other workflows and the metadata of local
+ * actions run with the same access as the workflow, so they are held to the same policy. Other
+ * files are not checked.
+ */
+export function checkExtraFilePolicy(
+  path: string,
+  content: string,
+  policy: SecurityPolicy
+): PolicyFinding[] {
+  const isWorkflow = WORKFLOW_FILE_PATTERN.test(path);
+  if (policy.mode === 'off' || (!isWorkflow && !ACTION_FILE_PATTERN.test(path))) {
+    return [];
+  }
+
+  try {
+    return checkPolicy(content, policy, isWorkflow ? checkJobs : checkActionRuns).map(finding => ({
+      ...finding,
+      file: path,
+    }));
+  } catch (error) {
+    return [
+      {
+        rule: 'unparsable-file',
+        severity: 'error',
+        message: `${path} cannot be checked against the security policy, as it is not valid YAML: ${error instanceof Error ? error.message : String(error)}`,
+        file: path,
+        path: '',
+      },
+    ];
+  }
+}
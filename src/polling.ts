@@ -0,0 +1,98 @@
+import type { RateLimit } from './github-requests.js';
+
+export interface PollingOptions {
+  detectionTimeoutMs: number;
+  executionTimeoutMs: number;
+  pollIntervalMs: number;
+}
+
+interface PollingJob {
+  status: string;
+  steps?: { status: string }[];
+}
+
+const MIN_POLL_INTERVAL_MS = 2000;
+const MAX_POLL_INTERVAL_MS = 60000;
+// Below this many remaining requests, polls are spread over the rest of the rate limit window
+const RATE_LIMIT_RESERVE = 100;
+
+const WAITING_STATUSES = ['queued', 'waiting', 'pending', 'requested'];
+
+export function isWaitingStatus(status: string | null): boolean {
+  return status !== null && WAITING_STATUSES.includes(status);
+}
+
+/**
+ * A run is close to finishing when every unfinished job is on its last steps, which are usually
+ * post-run cleanup.
+ */
+function isNearCompletion(jobs: PollingJob[]): boolean {
+  const unfinished = jobs.filter(job => job.status !== 'completed');
+  return (
+    unfinished.length > 0 &&
+    unfinished.every(
+      job =>
+        job.status === 'in_progress' &&
+        (job.steps?.length ?? 0) > 0 &&
+        job.steps!.filter(step => step.status !== 'completed').length <= 2
+    )
+  );
+}
+
+/**
+ * Choose how long to wait before polling a run again: slower while it waits for a runner, faster
+ * once its jobs are nearly done, and never faster than the remaining rate limit allows.
+ */
+export function nextPollDelay(
+  runStatus: string | null,
+  pollIntervalMs: number,
+  jobs?: PollingJob[],
+  rateLimit?: RateLimit
+): number {
+  let delay = pollIntervalMs;
+  if (isWaitingStatus(runStatus)) {
+    delay = pollIntervalMs * 2;
+  } else if (jobs && isNearCompletion(jobs)) {
+    delay = pollIntervalMs / 2;
+  }
+  delay = Math.min(Math.max(delay, MIN_POLL_INTERVAL_MS), MAX_POLL_INTERVAL_MS);
+
+  if (rateLimit && rateLimit.remaining < RATE_LIMIT_RESERVE) {
+    const untilReset = Math.max(rateLimit.resetAt - Date.now(), 0);
+    delay = Math.max(delay, Math.ceil(untilReset / Math.max(rateLimit.remaining, 1)));
+  }
+
+  return delay;
+}
+
+function cancellationError(): Error {
+  return new Error('The request was cancelled by the client');
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw cancellationError();
+  }
+}
+
+/**
+ * Wait for a delay, rejecting as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellationError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellationError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
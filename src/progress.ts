@@ -0,0 +1,82 @@
+import type { ProgressNotification } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+export type ProgressReporter = (message: string) => Promise<void>;
+
+interface ProgressJob {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  steps?: { number: number; name: string; status: string; conclusion: string | null }[];
+}
+
+interface ProgressStatus {
+  status: string | null;
+  conclusion?: string | null;
+}
+
+/**
+ * Create a reporter that sends MCP progress notifications for a request's progress token. The
+ * total is unknown up front, so progress is a count of the updates sent so far.
+ */
+export function createProgressReporter(
+  progressToken: string | number,
+  sendNotification: (notification: ProgressNotification) => Promise<void>
+): ProgressReporter {
+  let progress = 0;
+
+  return async message => {
+    progress++;
+    try {
+      await sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      });
+    } catch (error) {
+      // Progress is best effort and must never fail the tool call
+      logger.debug('Failed to send progress notification', {
+        message,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+function describeStatus(subject: string, { status, conclusion }: ProgressStatus): string {
+  if (status === 'completed') {
+    return `${subject} completed (${conclusion ?? 'no conclusion'})`;
+  }
+  return status === 'in_progress' ? `${subject} started` : `${subject} ${status}`;
+}
+
+/**
+ * Describe the jobs and steps that started or finished since the last poll. `statuses` holds the
+ * status of every job and step seen so far, and is updated in place.
+ */
+export function describeJobProgress(
+  statuses: Map<string, string | null>,
+  jobs: ProgressJob[]
+): string[] {
+  const messages: string[] = [];
+  const track = (key: string, subject: string, current: ProgressStatus) => {
+    const previous = statuses.get(key);
+    statuses.set(key, current.status);
+    // Queued jobs and pending steps are not worth a notification
+    if (
+      current.status !== previous &&
+      (current.status === 'in_progress' || current.status === 'completed')
+    ) {
+      messages.push(describeStatus(subject, current));
+    }
+  };
+
+  for (const job of jobs) {
+    track(`job:${job.id}`, `Job '${job.name}'`, job);
+    for (const step of job.steps ?? []) {
+      track(`step:${job.id}:${step.number}`, `Step '${step.name}' of job '${job.name}'`, step);
+    }
+  }
+
+  return messages;
+}
@@ -0,0 +1,32 @@
+export interface RepositoryTarget {
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Parse a comma or whitespace separated list of `owner/repo` patterns, e.g. "my-org/*, me/tools".
+ */
+export function parseRepositoryPatterns(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[\s,]+/)
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.length > 0);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/]*');
+  // Repository names are case-insensitive on GitHub
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check whether a repository matches any of the `owner/repo` patterns, where `*` matches any
+ * part of an owner or repository name.
+ */
+export function matchesRepositoryPatterns(target: RepositoryTarget, patterns: string[]): boolean {
+  const fullName = `${target.owner}/${target.repo}`;
+  return patterns.some(pattern => patternToRegExp(pattern).test(fullName));
+}
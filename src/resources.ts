@@ -0,0 +1,38 @@
+import type { RepositoryTarget } from './repositories.js';
+
+export const WORKFLOW_RUN_URI_SCHEME = 'workflow-run';
+
+export interface WorkflowRunResource {
+  target: RepositoryTarget;
+  runId: number;
+  // Set for job log resources, unset for the run itself
+  jobId?: number;
+}
+
+export function formatRunUri(target: RepositoryTarget, runId: number): string {
+  return `${WORKFLOW_RUN_URI_SCHEME}://${target.owner}/${target.repo}/${runId}`;
+}
+
+export function formatJobLogUri(target: RepositoryTarget, runId: number, jobId: number): string {
+  return `${formatRunUri(target, runId)}/jobs/${jobId}/log`;
+}
+
+/**
+ * Parse a `workflow-run://<owner>/<repo>/<run_id>` or
+ * `workflow-run://<owner>/<repo>/<run_id>/jobs/<job_id>/log` URI.
+ */
+export function parseWorkflowRunUri(uri: string): WorkflowRunResource | undefined {
+  const match = new RegExp(
+    `^${WORKFLOW_RUN_URI_SCHEME}://([^/]+)/([^/]+)/(\\d+)(?:/jobs/(\\d+)/log)?$`
+  ).exec(uri);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, owner, repo, runId, jobId] = match;
+  return {
+    target: { owner, repo },
+    runId: Number(runId),
+    jobId: jobId === undefined ? undefined : Number(jobId),
+  };
+}
@@ -0,0 +1,406 @@
+import type { Octokit, RestEndpointMethodTypes } from '@octokit/rest';
+import { logger } from './logger.js';
+import type { RepositoryTarget } from './repositories.js';
+import type { JobSelection } from './jobs.js';
+import {
+  DEFAULT_MAX_ARTIFACT_BYTES,
+  matchesGlob,
+  readArtifactArchive,
+  type ArtifactFile,
+} from './artifacts.js';
+import { extractFailedStepLogs, isFailedConclusion, truncateLog, type LogOptions } from './logs.js';
+import { getMatrixJobName, type JobMatrix, type MatrixCombination } from './matrix.js';
+import { parseTestReports, type TestSummary } from './test-reports.js';
+
+export type WorkflowRun = RestEndpointMethodTypes['actions']['getWorkflowRun']['response']['data'];
+
+export type WorkflowJob =
+  RestEndpointMethodTypes['actions']['getJobForWorkflowRun']['response']['data'];
+
+export type WorkflowArtifact =
+  RestEndpointMethodTypes['actions']['getArtifact']['response']['data'];
+
+interface WorkflowStepResult {
+  number: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface WorkflowJobResult {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  started_at: string;
+  completed_at: string | null;
+  runner_name: string | null;
+  html_url: string | null;
+  steps: WorkflowStepResult[];
+  logs: string;
+}
+
+interface WorkflowMatrixLegResult {
+  matrix: MatrixCombination;
+  job_id: number | null;
+  job_name: string | null;
+  status: string | null;
+  conclusion: string | null;
+}
+
+interface WorkflowMatrixJobResult {
+  job: string;
+  legs: WorkflowMatrixLegResult[];
+}
+
+interface WorkflowArtifactResult {
+  id: number;
+  name: string;
+  size_in_bytes: number;
+  expires_at: string | null;
+  expired: boolean;
+}
+
+interface WorkflowAnnotationResult {
+  job_name: string;
+  path: string;
+  start_line: number;
+  end_line: number;
+  level: string | null;
+  title: string | null;
+  message: string | null;
+}
+
+export interface TestReportOptions {
+  artifactName: string;
+  patterns: string[];
+}
+
+export interface WorkflowRunResult {
+  event: string;
+  run_attempt: number;
+  status: string | null;
+  conclusion: string | null;
+  html_url: string;
+  base_ref?: string;
+  base_sha?: string;
+  jobs: WorkflowJobResult[];
+  artifacts: WorkflowArtifactResult[];
+  annotations: WorkflowAnnotationResult[];
+  matrix_jobs?: WorkflowMatrixJobResult[];
+  job_selection?: JobSelection;
+  test_summary?: TestSummary | { error: string };
+  timed_out?: boolean;
+  timeout_note?: string;
+}
+
+export async function listWorkflowRunJobs(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  runId: number
+): Promise<WorkflowJob[]> {
+  logger.logGitHubAPI('list-jobs-for-workflow-run', target.owner, target.repo, {
+    runId,
+  });
+  return octokit.paginate(octokit.actions.listJobsForWorkflowRun, {
+    owner: target.owner,
+    repo: target.repo,
+    run_id: runId,
+    per_page: 100,
+  });
+}
+
+export async function listWorkflowRunArtifacts(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  runId: number
+): Promise<WorkflowArtifact[]> {
+  logger.logGitHubAPI('list-workflow-run-artifacts', target.owner, target.repo, { runId });
+  return octokit.paginate(octokit.actions.listWorkflowRunArtifacts, {
+    owner: target.owner,
+    repo: target.repo,
+    run_id: runId,
+    per_page: 100,
+  });
+}
+
+export function toArtifactResult(artifact: WorkflowArtifact): WorkflowArtifactResult {
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    size_in_bytes: artifact.size_in_bytes,
+    expires_at: artifact.expires_at,
+    expired: artifact.expired,
+  };
+}
+
+export function toJobResult(job: WorkflowJob): Omit<WorkflowJobResult, 'logs'> {
+  return {
+    id: job.id,
+    name: job.name,
+    status: job.status,
+    conclusion: job.conclusion,
+    started_at: job.started_at,
+    completed_at: job.completed_at ?? null,
+    runner_name: job.runner_name ?? null,
+    html_url: job.html_url ?? null,
+    steps: (job.steps ?? []).map(step => ({
+      number: step.number,
+      name: step.name,
+      status: step.status,
+      conclusion: step.conclusion,
+      started_at: step.started_at ?? null,
+      completed_at: step.completed_at ?? null,
+    })),
+  };
+}
+
+export function groupMatrixJobs(
+  jobMatrices: JobMatrix[],
+  jobs: WorkflowJobResult[]
+): WorkflowMatrixJobResult[] {
+  return jobMatrices.map(jobMatrix => ({
+    job: jobMatrix.jobId,
+    legs: jobMatrix.combinations.map(combination => {
+      const jobName = getMatrixJobName(jobMatrix, combination);
+      const job = jobName === undefined ? undefined : jobs.find(({ name }) => name === jobName);
+      return {
+        matrix: combination,
+        job_id: job?.id ?? null,
+        job_name: job?.name ?? jobName ?? null,
+        status: job?.status ?? null,
+        conclusion: job?.conclusion ?? null,
+      };
+    }),
+  }));
+}
+
+/**
+ * Download an artifact and read its files, refusing expired artifacts and artifacts over the size
+ * limit.
+ */
+export async function downloadArtifactFiles(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  artifact: WorkflowArtifact,
+  maxBytes: number
+): Promise<ArtifactFile[]> {
+  if (artifact.expired) {
+    throw new Error(`Artifact '${artifact.name}' has expired and can no longer be downloaded`);
+  }
+  if (artifact.size_in_bytes > maxBytes) {
+    throw new Error(
+      `Artifact '${artifact.name}' is ${artifact.size_in_bytes} bytes, more than the ${maxBytes} byte limit`
+    );
+  }
+
+  logger.logGitHubAPI('download-artifact', target.owner, target.repo, {
+    artifactId: artifact.id,
+    size: artifact.size_in_bytes,
+  });
+  const { data } = await octokit.actions.downloadArtifact({
+    owner: target.owner,
+    repo: target.repo,
+    artifact_id: artifact.id,
+    archive_format: 'zip',
+  });
+
+  const files = readArtifactArchive(new Uint8Array(data as ArrayBuffer), maxBytes);
+  logger.info('Artifact downloaded successfully', {
+    artifactId: artifact.id,
+    name: artifact.name,
+    fileCount: files.length,
+  });
+  return files;
+}
+
+async function listWorkflowRunAnnotations(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  jobs: WorkflowJob[]
+): Promise<WorkflowAnnotationResult[]> {
+  const annotations: WorkflowAnnotationResult[] = [];
+
+  // Each job is backed by a check run with the same ID
+  for (const job of jobs) {
+    try {
+      logger.logGitHubAPI('list-annotations', target.owner, target.repo, { checkRunId: job.id });
+      const jobAnnotations = await octokit.paginate(octokit.checks.listAnnotations, {
+        owner: target.owner,
+        repo: target.repo,
+        check_run_id: job.id,
+        per_page: 100,
+      });
+      annotations.push(
+        ...jobAnnotations.map(annotation => ({
+          job_name: job.name,
+          path: annotation.path,
+          start_line: annotation.start_line,
+          end_line: annotation.end_line,
+          level: annotation.annotation_level,
+          title: annotation.title,
+          message: annotation.message,
+        }))
+      );
+    } catch (error) {
+      logger.warn('Failed to fetch annotations for job', {
+        jobId: job.id,
+        jobName: job.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return annotations;
+}
+
+async function collectTestSummary(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  artifacts: WorkflowArtifact[],
+  testReport: TestReportOptions
+): Promise<TestSummary | { error: string }> {
+  const artifact = artifacts.find(candidate => candidate.name === testReport.artifactName);
+  if (!artifact) {
+    return { error: `The run has no artifact named '${testReport.artifactName}'` };
+  }
+
+  try {
+    const files = await downloadArtifactFiles(
+      octokit,
+      target,
+      artifact,
+      DEFAULT_MAX_ARTIFACT_BYTES
+    );
+    const summary = parseTestReports(
+      files
+        .filter(file => testReport.patterns.some(pattern => matchesGlob(file.path, pattern)))
+        .map(file => ({ path: file.path, content: Buffer.from(file.content).toString('utf-8') }))
+    );
+    logger.info('Parsed test reports', {
+      artifact: artifact.name,
+      reportFiles: summary.report_files.length,
+      total: summary.total,
+      failed: summary.failed,
+    });
+    return summary;
+  } catch (error) {
+    logger.warn('Failed to read test reports', {
+      artifact: artifact.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {
+      error: `Failed to read test reports: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Collect the jobs with their logs, the artifacts, the annotations and optionally the test summary
+ * of a workflow run.
+ */
+export async function collectWorkflowRunResult(
+  octokit: Octokit,
+  target: RepositoryTarget,
+  run: WorkflowRun,
+  testReport?: TestReportOptions
+): Promise<WorkflowRunResult> {
+  // Get jobs for detailed information and logs
+  const jobs = await listWorkflowRunJobs(octokit, target, run.id);
+
+  logger.info('Retrieved job details', {
+    runId: run.id,
+    jobCount: jobs.length,
+    jobStatuses: jobs.map(job => ({
+      name: job.name,
+      status: job.status,
+      conclusion: job.conclusion,
+    })),
+  });
+
+  const jobResults: WorkflowJobResult[] = [];
+  for (const job of jobs) {
+    let logs: string;
+    try {
+      logger.debug('Fetching logs for job', { jobId: job.id, jobName: job.name });
+      const { data: logData } = await octokit.actions.downloadJobLogsForWorkflowRun({
+        owner: target.owner,
+        repo: target.repo,
+        job_id: job.id,
+      });
+
+      // logData is a string with raw logs
+      logs = typeof logData === 'string' ? logData : String(logData);
+    } catch (logError) {
+      logger.warn('Failed to fetch logs for job', {
+        jobId: job.id,
+        jobName: job.name,
+        error: logError instanceof Error ? logError.message : String(logError),
+      });
+      logs = `[Error fetching logs: ${logError}]`;
+    }
+
+    jobResults.push({ ...toJobResult(job), logs });
+  }
+
+  const artifacts = await listWorkflowRunArtifacts(octokit, target, run.id);
+  const annotations = await listWorkflowRunAnnotations(octokit, target, jobs);
+
+  return {
+    event: run.event,
+    run_attempt: run.run_attempt ?? 1,
+    status: run.status,
+    conclusion: run.conclusion,
+    html_url: run.html_url,
+    jobs: jobResults,
+    artifacts: artifacts.map(artifact => toArtifactResult(artifact)),
+    annotations,
+    test_summary: testReport
+      ? await collectTestSummary(octokit, target, artifacts, testReport)
+      : undefined,
+  };
+}
+
+/**
+ * Truncate or omit the job logs of a result as the log options ask, noting how to fetch the full
+ * logs when any were limited.
+ */
+export function applyLogOptions(runId: number, result: WorkflowRunResult, options: LogOptions) {
+  let limited = false;
+
+  const jobs = result.jobs.map(({ logs, ...job }) => {
+    if (
+      (options.failedJobsOnly || options.failedStepsOnly) &&
+      !isFailedConclusion(job.conclusion)
+    ) {
+      limited = true;
+      return { ...job, logs_omitted: true };
+    }
+
+    const failedStepLogs = options.failedStepsOnly ? extractFailedStepLogs(logs, job.steps) : null;
+    const processed = truncateLog(failedStepLogs ?? logs, options.maxBytes, options.tailLines);
+    if (failedStepLogs !== null || processed.truncated) {
+      limited = true;
+    }
+
+    return {
+      ...job,
+      logs: processed.text,
+      logs_truncated: processed.truncated || failedStepLogs !== null,
+      logs_total_bytes: Buffer.byteLength(logs),
+    };
+  });
+
+  if (!limited) {
+    return { ...result, jobs };
+  }
+
+  logger.debug('Job logs were limited in workflow run result', { runId, options });
+  return {
+    ...result,
+    jobs,
+    logs_note: `Some job logs were truncated or omitted. Call get_workflow_run_result with run_id ${runId} and max_log_bytes 0, log_tail_lines 0 and failed_jobs_logs_only / failed_steps_logs_only false to fetch the full logs, or view them at ${result.html_url}`,
+  };
+}
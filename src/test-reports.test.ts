@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTestReports } from './test-reports.js';
+
+// Reports as written by jest-junit, pytest and Surefire
+const JUNIT_REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="5" failures="2" errors="0">
+  <testsuite name="math" tests="3">
+    <testcase classname="math adds" name="adds numbers" time="0.001" />
+    <testcase classname="math divides" name="divides by zero" time="0.002">
+      <failure message="expected Infinity to be 0" type="AssertionError">AssertionError: expected Infinity to be 0
+    at Object.&lt;anonymous&gt; (math.test.js:12:5)</failure>
+    </testcase>
+    <testcase classname="math rounds" name="rounds halves">
+      <skipped />
+    </testcase>
+  </testsuite>
+  <testsuite name="strings" tests="2">
+    <testcase classname="strings" name="pads">
+      <failure>Error: expected 'a ' to equal ' a'
+    at pad.test.js:3:1</failure>
+    </testcase>
+    <testcase classname="strings" name="trims" />
+  </testsuite>
+</testsuites>
+`;
+
+const NESTED_JUNIT_REPORT = `<testsuite name="root">
+  <testcase name="top level" />
+  <testsuite name="nested">
+    <testcase name="errors">
+      <error type="RuntimeError" />
+    </testcase>
+  </testsuite>
+</testsuite>
+`;
+
+const TRX_REPORT = `<?xml version="1.0" encoding="utf-8"?>
+<TestRun id="1" name="runner@host 2024-06-10" xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+  <Results>
+    <UnitTestResult testId="t1" testName="Adds" outcome="Passed" />
+    <UnitTestResult testId="t2" testName="Divides" outcome="Failed">
+      <Output>
+        <ErrorInfo>
+          <Message>Assert.AreEqual failed. Expected:&lt;0&gt;. Actual:&lt;1&gt;.</Message>
+          <StackTrace>at MathTests.Divides() in MathTests.cs:line 20</StackTrace>
+        </ErrorInfo>
+      </Output>
+    </UnitTestResult>
+    <UnitTestResult testId="t3" testName="Hangs" outcome="Timeout" />
+    <UnitTestResult testId="t4" testName="Ignored" outcome="NotExecuted" />
+  </Results>
+  <TestDefinitions>
+    <UnitTest id="t2" name="Divides">
+      <TestMethod className="Tests.MathTests" name="Divides" />
+    </UnitTest>
+  </TestDefinitions>
+</TestRun>
+`;
+
+describe('parseTestReports', () => {
+  it('counts JUnit test cases and reads failures with and without attributes', () => {
+    const summary = parseTestReports([{ path: 'reports/junit.xml', content: JUNIT_REPORT }]);
+
+    assert.deepEqual(
+      { ...summary, failures: undefined },
+      {
+        total: 5,
+        passed: 2,
+        failed: 2,
+        skipped: 1,
+        failures: undefined,
+        report_files: ['reports/junit.xml'],
+      }
+    );
+    assert.deepEqual(summary.failures, [
+      {
+        suite: 'math',
+        name: 'divides by zero',
+        classname: 'math divides',
+        message: 'expected Infinity to be 0',
+        stack_trace:
+          'AssertionError: expected Infinity to be 0\n    at Object.<anonymous> (math.test.js:12:5)',
+        report_file: 'reports/junit.xml',
+      },
+      {
+        suite: 'strings',
+        name: 'pads',
+        classname: 'strings',
+        message: "Error: expected 'a ' to equal ' a'",
+        stack_trace: "Error: expected 'a ' to equal ' a'\n    at pad.test.js:3:1",
+        report_file: 'reports/junit.xml',
+      },
+    ]);
+  });
+
+  it('reads nested JUnit suites and errors', () => {
+    const summary = parseTestReports([{ path: 'junit.xml', content: NESTED_JUNIT_REPORT }]);
+
+    assert.equal(summary.total, 2);
+    assert.equal(summary.passed, 1);
+    assert.deepEqual(summary.failures, [
+      {
+        suite: 'nested',
+        name: 'errors',
+        classname: undefined,
+        message: 'RuntimeError',
+        stack_trace: undefined,
+        report_file: 'junit.xml',
+      },
+    ]);
+  });
+
+  it('reads TRX outcomes', () => {
+    const summary = parseTestReports([{ path: 'results.trx', content: TRX_REPORT }]);
+
+    assert.equal(summary.total, 4);
+    assert.equal(summary.passed, 1);
+    assert.equal(summary.failed, 2);
+    assert.equal(summary.skipped, 1);
+    assert.deepEqual(summary.failures, [
+      {
+        suite: 'runner@host 2024-06-10',
+        name: 'Divides',
+        classname: 'Tests.MathTests',
+        message: 'Assert.AreEqual failed. Expected:<0>. Actual:<1>.',
+        stack_trace: 'at MathTests.Divides() in MathTests.cs:line 20',
+        report_file: 'results.trx',
+      },
+      {
+        suite: 'runner@host 2024-06-10',
+        name: 'Hangs',
+        classname: undefined,
+        message: undefined,
+        stack_trace: undefined,
+        report_file: 'results.trx',
+      },
+    ]);
+  });
+
+  it('keeps the first 100 failures', () => {
+    const testCases = Array.from(
+      { length: 150 },
+      (_, index) =>
+        `<testcase name="test ${index}"><failure message="failed ${index}" /></testcase>`
+    );
+    const summary = parseTestReports([
+      { path: 'junit.xml', content: `<testsuite name="many">${testCases.join('')}</testsuite>` },
+    ]);
+
+    assert.equal(summary.failed, 150);
+    assert.equal(summary.failures.length, 100);
+    assert.equal(summary.failures[99].name, 'test 99');
+    assert.equal(summary.failures_truncated, true);
+  });
+
+  it('truncates long stack traces', () => {
+    const summary = parseTestReports([
+      {
+        path: 'junit.xml',
+        content: `<testsuite><testcase name="t"><failure>${'x'.repeat(5000)}</failure></testcase></testsuite>`,
+      },
+    ]);
+
+    assert.equal(summary.failures[0].stack_trace, `${'x'.repeat(4000)}\n[... truncated ...]`);
+  });
+
+  it('skips XML files that are not test reports and reports files that cannot be parsed', () => {
+    const summary = parseTestReports([
+      { path: 'pom.xml', content: '<project><modelVersion>4.0.0</modelVersion></project>' },
+      { path: 'broken.xml', content: '<testsuite><testcase></testsuite>' },
+      { path: 'junit.xml', content: NESTED_JUNIT_REPORT },
+    ]);
+
+    assert.deepEqual(summary.report_files, ['junit.xml']);
+    assert.equal(summary.unparsed_files?.length, 1);
+    assert.equal(summary.unparsed_files?.[0].path, 'broken.xml');
+  });
+});
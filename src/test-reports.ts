@@ -0,0 +1,207 @@
+import { XMLParser } from 'fast-xml-parser';
+
+export interface TestReportFile {
+  path: string;
+  content: string;
+}
+
+export interface TestFailure {
+  suite: string;
+  name: string;
+  classname?: string;
+  message?: string;
+  stack_trace?: string;
+  report_file: string;
+}
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: TestFailure[];
+  failures_truncated?: boolean;
+  report_files: string[];
+  unparsed_files?: { path: string; error: string }[];
+}
+
+export const DEFAULT_TEST_REPORT_PATTERNS = ['**/*.xml', '**/*.trx'];
+
+const MAX_FAILURES = 100;
+const MAX_STACK_TRACE_LENGTH = 4000;
+
+type XmlElement = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  textNodeName: '#text',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  // Every element may repeat, so always read children as arrays
+  isArray: (_tagName, _jPath, _isLeafNode, isAttribute) => !isAttribute,
+});
+
+function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  const value = element?.[name];
+  // Elements without attributes, such as a bare <failure>, are parsed to their text
+  return Array.isArray(value)
+    ? value.map(child => (typeof child === 'object' ? child : { '#text': child }))
+    : [];
+}
+
+function attribute(element: XmlElement | undefined, name: string): string | undefined {
+  const value = element?.[`@${name}`];
+  return value === undefined ? undefined : String(value);
+}
+
+function text(element: XmlElement | undefined): string | undefined {
+  if (!element) {
+    return undefined;
+  }
+  const value = element['#text'];
+  return value === undefined ? undefined : String(value).trim() || undefined;
+}
+
+function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const value = element?.[name];
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+  // Leaf elements without attributes are parsed to their text
+  const [child] = value;
+  return typeof child === 'object' ? text(child) : String(child).trim() || undefined;
+}
+
+function truncateStackTrace(stackTrace: string | undefined): string | undefined {
+  return stackTrace && stackTrace.length > MAX_STACK_TRACE_LENGTH
+    ? `${stackTrace.slice(0, MAX_STACK_TRACE_LENGTH)}\n[... truncated ...]`
+    : stackTrace;
+}
+
+function parseJUnitSuite(suite: XmlElement, reportFile: string, summary: TestSummary): void {
+  const suiteName = attribute(suite, 'name') ?? reportFile;
+
+  for (const testCase of children(suite, 'testcase')) {
+    summary.total++;
+    const [failure] = [...children(testCase, 'failure'), ...children(testCase, 'error')];
+
+    if (failure) {
+      const details = text(failure);
+      summary.failed++;
+      summary.failures.push({
+        suite: suiteName,
+        name: attribute(testCase, 'name') ?? '(unnamed)',
+        classname: attribute(testCase, 'classname'),
+        // Many reporters put the message only in the first line of the element's text
+        message:
+          attribute(failure, 'message') ?? attribute(failure, 'type') ?? details?.split('\n')[0],
+        stack_trace: truncateStackTrace(details),
+        report_file: reportFile,
+      });
+    } else if (testCase.skipped !== undefined) {
+      summary.skipped++;
+    } else {
+      summary.passed++;
+    }
+  }
+
+  // Suites may nest
+  for (const nested of children(suite, 'testsuite')) {
+    parseJUnitSuite(nested, reportFile, summary);
+  }
+}
+
+function parseTrx(testRun: XmlElement, reportFile: string, summary: TestSummary): void {
+  const classNames = new Map<string, string>();
+  for (const definitions of children(testRun, 'TestDefinitions')) {
+    for (const unitTest of children(definitions, 'UnitTest')) {
+      const [method] = children(unitTest, 'TestMethod');
+      const className = attribute(method, 'className');
+      const id = attribute(unitTest, 'id');
+      if (id && className) {
+        classNames.set(id, className);
+      }
+    }
+  }
+
+  const suiteName = attribute(testRun, 'name') ?? reportFile;
+  for (const results of children(testRun, 'Results')) {
+    for (const result of children(results, 'UnitTestResult')) {
+      summary.total++;
+      const outcome = attribute(result, 'outcome');
+
+      if (outcome === 'Failed' || outcome === 'Error' || outcome === 'Timeout') {
+        const [output] = children(result, 'Output');
+        const [errorInfo] = children(output, 'ErrorInfo');
+        summary.failed++;
+        summary.failures.push({
+          suite: suiteName,
+          name: attribute(result, 'testName') ?? '(unnamed)',
+          classname: classNames.get(attribute(result, 'testId') ?? ''),
+          message: childText(errorInfo, 'Message'),
+          stack_trace: truncateStackTrace(childText(errorInfo, 'StackTrace')),
+          report_file: reportFile,
+        });
+      } else if (outcome === 'Passed') {
+        summary.passed++;
+      } else {
+        summary.skipped++;
+      }
+    }
+  }
+}
+
+/**
+ * Parse JUnit XML and TRX (Visual Studio) test reports into one summary. Files that are not test
+ * reports, such as other XML files matched by the patterns, are skipped.
+ */
+export function parseTestReports(files: TestReportFile[]): TestSummary {
+  const summary: TestSummary = {
+    total: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    failures: [],
+    report_files: [],
+  };
+  const unparsedFiles: { path: string; error: string }[] = [];
+
+  for (const file of files) {
+    let document: XmlElement;
+    try {
+      // Validate, as the parser otherwise reads truncated or mismatched XML into partial results
+      document = parser.parse(file.content, true);
+    } catch (error) {
+      unparsedFiles.push({
+        path: file.path,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const junitRoots = [...children(document, 'testsuites'), ...children(document, 'testsuite')];
+    const trxRoots = children(document, 'TestRun');
+    if (junitRoots.length === 0 && trxRoots.length === 0) {
+      continue;
+    }
+
+    summary.report_files.push(file.path);
+    for (const root of junitRoots) {
+      parseJUnitSuite(root, file.path, summary);
+    }
+    for (const root of trxRoots) {
+      parseTrx(root, file.path, summary);
+    }
+  }
+
+  if (summary.failures.length > MAX_FAILURES) {
+    summary.failures = summary.failures.slice(0, MAX_FAILURES);
+    summary.failures_truncated = true;
+  }
+  if (unparsedFiles.length > 0) {
+    summary.unparsed_files = unparsedFiles;
+  }
+
+  return summary;
+}
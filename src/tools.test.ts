@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolRequest,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { createToolDispatcher, defineTool } from './tools.js';
+
+const requests = {
+  getRateLimit: () => ({ limit: 5000, remaining: 4990, resetAt: 1700000000000 }),
+};
+
+function createExtra(notifications: ServerNotification[] = []) {
+  return {
+    signal: new AbortController().signal,
+    sendNotification: async (notification: ServerNotification) => {
+      notifications.push(notification);
+    },
+  } as unknown as RequestHandlerExtra<ServerRequest, ServerNotification>;
+}
+
+function callTool(name: string, args: unknown, progressToken?: string): CallToolRequest {
+  return {
+    method: 'tools/call',
+    params: {
+      name,
+      arguments: args as Record<string, unknown>,
+      ...(progressToken ? { _meta: { progressToken } } : {}),
+    },
+  };
+}
+
+const dispatch = createToolDispatcher(
+  {
+    echo: defineTool(z.object({ value: z.number() }), async (args, { progress }) => {
+      await progress?.('Echoing');
+      return { data: { value: args.value } };
+    }),
+    reject: defineTool(z.object({}), async () => ({ data: { rejected: true }, isError: true })),
+  },
+  requests
+);
+
+describe('createToolDispatcher', () => {
+  it('parses the arguments and formats the result with the rate limit', async () => {
+    const result = await dispatch(callTool('echo', { value: 1 }), createExtra());
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(JSON.parse(result.content[0].text as string), {
+      value: 1,
+      rate_limit: { limit: 5000, remaining: 4990, reset_at: '2023-11-14T22:13:20.000Z' },
+    });
+  });
+
+  it('marks error results', async () => {
+    const result = await dispatch(callTool('reject', {}), createExtra());
+
+    assert.equal(result.isError, true);
+    assert.equal(JSON.parse(result.content[0].text as string).rejected, true);
+  });
+
+  it('reports progress to clients that pass a progress token', async () => {
+    const notifications: ServerNotification[] = [];
+    await dispatch(callTool('echo', { value: 1 }, 'token'), createExtra(notifications));
+
+    assert.deepEqual(notifications, [
+      {
+        method: 'notifications/progress',
+        params: { progressToken: 'token', progress: 1, message: 'Echoing' },
+      },
+    ]);
+  });
+
+  it('rejects invalid arguments', async () => {
+    await assert.rejects(dispatch(callTool('echo', { value: 'one' }), createExtra()), z.ZodError);
+  });
+
+  it('rejects unknown tools', async () => {
+    await assert.rejects(dispatch(callTool('toString', {}), createExtra()), {
+      message: 'Unknown tool: toString',
+    });
+  });
+});
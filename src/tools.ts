@@ -0,0 +1,107 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { z } from 'zod';
+import type { RequestLayer } from './github-requests.js';
+import { logger } from './logger.js';
+import { createProgressReporter, type ProgressReporter } from './progress.js';
+
+export interface ToolContext {
+  // Aborted when the client cancels the request
+  signal: AbortSignal;
+  // Set when the client passed a progress token
+  progress?: ProgressReporter;
+}
+
+// What a tool returns, serialized as JSON text content of the response
+export interface ToolResult {
+  data: object;
+  isError?: boolean;
+}
+
+export interface ToolDefinition<Schema extends z.ZodType = z.ZodType> {
+  schema: Schema;
+  call(args: z.infer<Schema>, context: ToolContext): Promise<ToolResult>;
+}
+
+export function defineTool<Schema extends z.ZodType>(
+  schema: Schema,
+  call: (args: z.infer<Schema>, context: ToolContext) => Promise<ToolResult>
+): ToolDefinition<Schema> {
+  return { schema, call };
+}
+
+function formatToolResult({ data, isError }: ToolResult, requests: RequestLayer): CallToolResult {
+  const rateLimit = requests.getRateLimit();
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            ...data,
+            // The GitHub API budget left after the call
+            rate_limit: rateLimit && {
+              limit: rateLimit.limit,
+              remaining: rateLimit.remaining,
+              reset_at: new Date(rateLimit.resetAt).toISOString(),
+            },
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    ...(isError ? { isError } : {}),
+  };
+}
+
+/**
+ * Create the CallTool request handler for a set of tools. It parses the arguments with the tool's
+ * schema, logs the request and its outcome, and formats the result with the remaining rate limit.
+ * Errors are logged and rethrown for the SDK to report.
+ */
+export function createToolDispatcher(
+  tools: Record<string, ToolDefinition>,
+  requests: RequestLayer
+) {
+  return async (
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<CallToolResult> => {
+    const { name } = request.params;
+    const startTime = Date.now();
+    logger.logRequest(name, request.params.arguments);
+
+    // Clients that pass a progress token get notified of each stage of long-running calls
+    const progressToken = request.params._meta?.progressToken;
+    const progress =
+      progressToken === undefined
+        ? undefined
+        : createProgressReporter(progressToken, notification =>
+            extra.sendNotification(notification)
+          );
+
+    try {
+      const tool = Object.hasOwn(tools, name) ? tools[name] : undefined;
+      if (!tool) {
+        const error = new Error(`Unknown tool: ${name}`);
+        logger.error('Unknown tool requested', error, { toolName: name });
+        throw error;
+      }
+
+      const args = tool.schema.parse(request.params.arguments);
+      const result = await tool.call(args, { signal: extra.signal, progress });
+      logger.logResponse(name, Date.now() - startTime, true);
+      return formatToolResult(result, requests);
+    } catch (error) {
+      logger.logResponse(name, Date.now() - startTime, false);
+      logger.error('Request failed', error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  };
+}
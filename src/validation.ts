@@ -0,0 +1,66 @@
+import { validateWorkflow } from '@action-validator/core';
+import * as YAML from 'yaml';
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface WorkflowValidationError {
+  title: string;
+  detail?: string;
+  code: string;
+  path?: string;
+  location?: SourceLocation;
+}
+
+/**
+ * Find the line and column (1-based) of the node at a JSON pointer such as "/jobs/build/steps/0".
+ */
+export function locatePath(workflowContent: string, path: string): SourceLocation | undefined {
+  const lineCounter = new YAML.LineCounter();
+  const document = YAML.parseDocument(workflowContent, { lineCounter });
+  const segments = path
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  // Walk up to the closest ancestor that exists, e.g. for a missing required key
+  for (let depth = segments.length; depth >= 0; depth--) {
+    const node = document.getIn(
+      segments.slice(0, depth).map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment)),
+      true
+    );
+    if (YAML.isNode(node) && node.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run action-validator on a workflow and return its errors, each with the source location of the
+ * offending node when it can be determined.
+ */
+export function getValidationErrors(workflowContent: string): WorkflowValidationError[] {
+  const state = validateWorkflow(workflowContent);
+
+  return state.errors.map(error => {
+    const path = 'path' in error && error.path ? error.path : undefined;
+    const parseLocation = 'location' in error ? error.location : undefined;
+
+    return {
+      title: error.title,
+      detail: error.detail,
+      code: error.code,
+      path,
+      location: parseLocation
+        ? { line: parseLocation.line, column: parseLocation.column }
+        : path !== undefined
+          ? locatePath(workflowContent, path)
+          : undefined,
+    };
+  });
+}
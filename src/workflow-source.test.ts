@@ -0,0 +1,211 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as YAML from 'yaml';
+import {
+  applySourceEdits,
+  findAliasesInto,
+  parseWorkflowDocument,
+  removeNode,
+  replaceValue,
+} from './workflow-source.js';
+
+const WORKFLOW = `on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: make
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: make test
+`;
+
+const removeJobs = (content: string, jobIds: string[]) => {
+  const document = parseWorkflowDocument(content);
+  return applySourceEdits(
+    content,
+    jobIds.map(jobId => removeNode(content, document, ['jobs', jobId]))
+  );
+};
+
+const setTrigger = (content: string, trigger: unknown) =>
+  applySourceEdits(content, [
+    replaceValue(content, parseWorkflowDocument(content), ['on'], trigger),
+  ]);
+
+describe('replaceValue', () => {
+  const trigger = { workflow_dispatch: { inputs: { target: { type: 'string' } } } };
+
+  it('replaces a block mapping on one line, padding the lines it spanned', () => {
+    const content = `name: CI
+on:
+  push:
+    branches: [main]
+  pull_request:
+jobs:
+  build:
+    runs-on: ubuntu-latest
+`;
+    const mutated = setTrigger(content, trigger);
+
+    assert.equal(
+      mutated,
+      `name: CI
+on:
+  {"workflow_dispatch":{"inputs":{"target":{"type":"string"}}}}
+
+
+jobs:
+  build:
+    runs-on: ubuntu-latest
+`
+    );
+    assert.deepEqual(YAML.parse(mutated).on, trigger);
+  });
+
+  it('replaces flow mappings, sequences and scalars', () => {
+    for (const on of ['{ push: { branches: [main] } }', '[push, pull_request]', 'push']) {
+      const content = `on: ${on}\njobs:\n  build:\n    runs-on: ubuntu-latest\n`;
+      const mutated = setTrigger(content, 'workflow_dispatch');
+
+      assert.equal(mutated, 'on: workflow_dispatch\njobs:\n  build:\n    runs-on: ubuntu-latest\n');
+    }
+  });
+
+  it('keeps comments around the trigger and their line numbers', () => {
+    const content = `# Runs the tests
+on: # when to run
+  # on every push
+  push:
+    branches: [main] # only main
+
+  pull_request: {}
+# The jobs
+jobs:
+  build: # the only job
+    runs-on: ubuntu-latest
+`;
+    const mutated = setTrigger(content, 'workflow_dispatch');
+    const lines = mutated.split('\n');
+
+    assert.equal(lines.length, content.split('\n').length);
+    assert.equal(lines[0], '# Runs the tests');
+    assert.equal(lines[1], 'on: # when to run');
+    assert.equal(lines[2], '  # on every push');
+    assert.equal(lines[3], '  workflow_dispatch');
+    assert.equal(lines[7], '# The jobs');
+    assert.equal(lines[9], '  build: # the only job');
+    assert.deepEqual(YAML.parse(mutated), {
+      on: 'workflow_dispatch',
+      jobs: { build: { 'runs-on': 'ubuntu-latest' } },
+    });
+  });
+
+  it('fills in an empty value', () => {
+    assert.equal(setTrigger('on:\njobs: {}\n', 'push'), 'on: push\njobs: {}\n');
+  });
+
+  it('appends missing top-level keys after the end of the document', () => {
+    assert.equal(setTrigger('jobs: {}', ['push']), 'jobs: {}\non: ["push"]\n');
+    assert.throws(
+      () => replaceValue('jobs: {}\n', parseWorkflowDocument('jobs: {}\n'), ['jobs', 'a', 'b'], 1),
+      { message: "Cannot set missing workflow key 'jobs.a.b'" }
+    );
+  });
+});
+
+describe('removeNode', () => {
+  it('blanks out the lines of a job, keeping the line numbers of the rest', () => {
+    const pruned = removeJobs(WORKFLOW, ['build']);
+
+    assert.equal(
+      pruned,
+      `on: push\njobs:\n${'\n'.repeat(4)}${WORKFLOW.split('\n').slice(6).join('\n')}`
+    );
+    assert.deepEqual(Object.keys(YAML.parse(pruned).jobs), ['test']);
+    assert.equal(pruned.split('\n')[7], '    runs-on: ubuntu-latest');
+  });
+
+  it('removes the last job of the workflow', () => {
+    const pruned = removeJobs(WORKFLOW, ['test']);
+
+    assert.equal(pruned.split('\n').length, WORKFLOW.split('\n').length);
+    assert.deepEqual(YAML.parse(pruned).jobs, {
+      build: { 'runs-on': 'ubuntu-latest', steps: [{ run: 'make' }] },
+    });
+  });
+
+  it('removes the last job of a workflow without a final line break', () => {
+    const content = WORKFLOW.trimEnd();
+    const pruned = removeJobs(content, ['test']);
+
+    assert.equal(pruned.split('\n').length, content.split('\n').length);
+    assert.deepEqual(Object.keys(YAML.parse(pruned).jobs), ['build']);
+  });
+
+  it('removes sequence items with their indicator', () => {
+    const content = 'on: push\nsteps:\n  - run: a\n  - run: b\n    shell: bash\n  - run: c\n';
+    const document = parseWorkflowDocument(content);
+    const pruned = applySourceEdits(content, [removeNode(content, document, ['steps', 1])]);
+
+    assert.equal(pruned, 'on: push\nsteps:\n  - run: a\n\n\n  - run: c\n');
+  });
+
+  it('rejects paths that do not exist', () => {
+    const document = parseWorkflowDocument(WORKFLOW);
+
+    assert.throws(() => removeNode(WORKFLOW, document, ['jobs', 'deploy']), {
+      message: "Cannot remove missing workflow node 'jobs.deploy'",
+    });
+  });
+});
+
+describe('findAliasesInto', () => {
+  const content = `on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    env: &env
+      CI: true
+    steps:
+      - &checkout
+        uses: actions/checkout@v4
+  test:
+    runs-on: ubuntu-latest
+    env: *env
+    steps:
+      - *checkout
+      - run: make test
+  lint:
+    runs-on: ubuntu-latest
+    env: *env
+`;
+
+  it('finds the aliases kept jobs use of anchors in removed jobs', () => {
+    const document = parseWorkflowDocument(content);
+
+    assert.deepEqual(findAliasesInto(document, [['jobs', 'build']]), ['env', 'checkout']);
+    assert.deepEqual(
+      findAliasesInto(document, [
+        ['jobs', 'build'],
+        ['jobs', 'lint'],
+      ]),
+      ['env', 'checkout']
+    );
+  });
+
+  it('ignores aliases that are removed with their anchors', () => {
+    const document = parseWorkflowDocument(content);
+
+    assert.deepEqual(
+      findAliasesInto(document, [
+        ['jobs', 'build'],
+        ['jobs', 'test'],
+        ['jobs', 'lint'],
+      ]),
+      []
+    );
+    assert.deepEqual(findAliasesInto(document, [['jobs', 'test']]), []);
+  });
+});
@@ -0,0 +1,157 @@
+import * as YAML from 'yaml';
+
+/**
+ * A replacement of the text between two offsets of the original workflow source.
+ *
+ * Edits never change the number of lines they replace: shorter replacements are padded with
+ * blank lines, and new content is only ever appended after the end of the document. Every line
+ * of the original workflow therefore keeps its line number in the mutated workflow, so locations
+ * reported by GitHub or action-validator for the mutated file point at the source the user wrote.
+ */
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function countLines(text: string): number {
+  return text.split('\n').length - 1;
+}
+
+/**
+ * Render a value to replace a node. JSON is valid YAML flow syntax, and keeps the replacement on a
+ * single line so it never needs more lines than the node it replaces.
+ */
+function renderValue(value: unknown): string {
+  return typeof value === 'string' && /^[\w-]+$/.test(value) ? value : JSON.stringify(value);
+}
+
+export function parseWorkflowDocument(workflowContent: string): YAML.Document.Parsed {
+  const document = YAML.parseDocument(workflowContent);
+
+  if (document.errors.length > 0) {
+    throw new Error(`Invalid workflow YAML: ${document.errors[0].message}`);
+  }
+  if (!YAML.isMap(document.contents)) {
+    throw new Error('Invalid workflow YAML structure');
+  }
+
+  return document;
+}
+
+/**
+ * Replace the value of a node, given by its path in the document, keeping the rest of the source
+ * (comments, quoting, anchors) untouched. When the path does not exist the key is appended to the
+ * end of the document, which requires its parent to be the top-level mapping.
+ */
+export function replaceValue(
+  workflowContent: string,
+  document: YAML.Document.Parsed,
+  path: (string | number)[],
+  value: unknown
+): SourceEdit {
+  const node = document.getIn(path, true);
+
+  if (YAML.isNode(node) && node.range) {
+    const [start, end] = node.range;
+    if (end === start) {
+      // An empty value, e.g. "on:" with nothing after it
+      return { start, end, text: ` ${renderValue(value)}` };
+    }
+    const padding = '\n'.repeat(countLines(workflowContent.slice(start, end)));
+    return { start, end, text: `${renderValue(value)}${padding}` };
+  }
+
+  if (path.length !== 1) {
+    throw new Error(`Cannot set missing workflow key '${path.join('.')}'`);
+  }
+
+  const separator = workflowContent.endsWith('\n') || workflowContent.length === 0 ? '' : '\n';
+  return {
+    start: workflowContent.length,
+    end: workflowContent.length,
+    text: `${separator}${path[0]}: ${renderValue(value)}\n`,
+  };
+}
+
+/**
+ * Blank out the lines of a mapping entry or sequence item, keeping their line breaks.
+ */
+export function removeNode(
+  workflowContent: string,
+  document: YAML.Document.Parsed,
+  path: (string | number)[]
+): SourceEdit {
+  const parent = document.getIn(path.slice(0, -1), true);
+  const key = path[path.length - 1];
+
+  let start: number | undefined;
+  let end: number | undefined;
+
+  if (YAML.isMap(parent)) {
+    const pair = parent.items.find(item => YAML.isScalar(item.key) && item.key.value === key);
+    if (pair && YAML.isScalar(pair.key) && pair.key.range) {
+      start = pair.key.range[0];
+      end = YAML.isNode(pair.value) && pair.value.range ? pair.value.range[2] : pair.key.range[2];
+    }
+  } else if (YAML.isSeq(parent) && typeof key === 'number') {
+    const item = parent.items[key];
+    if (YAML.isNode(item) && item.range) {
+      // Include the "- " indicator that precedes the item
+      start = workflowContent.lastIndexOf('-', item.range[0]);
+      end = item.range[2];
+    }
+  }
+
+  if (start === undefined || end === undefined) {
+    throw new Error(`Cannot remove missing workflow node '${path.join('.')}'`);
+  }
+
+  // Remove whole lines so no stray indentation is left behind
+  const lineStart = workflowContent.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = workflowContent.lastIndexOf('\n', end - 1);
+  // The last line has no line break to stop at when the source does not end with one
+  const removedEnd = end >= workflowContent.length || lineEnd < start ? end : lineEnd;
+  return {
+    start: lineStart,
+    end: removedEnd,
+    text: '\n'.repeat(countLines(workflowContent.slice(lineStart, removedEnd))),
+  };
+}
+
+/**
+ * Find the aliases outside the given nodes that refer to anchors defined inside them, which would
+ * be left unresolved if the nodes were removed. Returns the alias names.
+ */
+export function findAliasesInto(
+  document: YAML.Document.Parsed,
+  paths: (string | number)[][]
+): string[] {
+  const ranges = paths.flatMap(path => {
+    const node = document.getIn(path, true);
+    return YAML.isNode(node) && node.range ? [[node.range[0], node.range[2]]] : [];
+  });
+  const isInside = (offset: number) =>
+    ranges.some(([start, end]) => offset >= start && offset < end);
+
+  const aliases = new Set<string>();
+  YAML.visit(document, {
+    Alias(_, alias) {
+      const target = alias.resolve(document);
+      if (alias.range && !isInside(alias.range[0]) && target?.range && isInside(target.range[0])) {
+        aliases.add(alias.source);
+      }
+    },
+  });
+  return [...aliases];
+}
+
+export function applySourceEdits(workflowContent: string, edits: SourceEdit[]): string {
+  // Apply from the end so earlier offsets stay valid
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (content, edit) => content.slice(0, edit.start) + edit.text + content.slice(edit.end),
+      workflowContent
+    );
+}